@@ -0,0 +1,346 @@
+import type { Sprite } from './Sprite.ts'
+
+/**
+ * What a clip does when it reaches its last frame
+ */
+export const AnimationLoopMode = {
+  LOOP: 'loop',
+  ONCE: 'once',
+  PING_PONG: 'ping_pong'
+} as const
+
+export type AnimationLoopMode = typeof AnimationLoopMode[keyof typeof AnimationLoopMode]
+
+/**
+ * One explicitly configured clip frame
+ */
+export interface AnimationFrameConfig {
+  /** Sprite to show (default: the clip's sprite) */
+  sprite?: Sprite
+  /** Frame of the sprite strip */
+  frame: number
+  /** How long the frame is shown in milliseconds (default: from the clip speed, else the sprite's) */
+  duration?: number
+  /** Event fired when the frame is entered */
+  event?: string
+}
+
+/**
+ * Named clip definition
+ */
+export interface AnimationClipConfig {
+  name: string
+  /** Sprite used by frames given as plain indices or a range */
+  sprite?: Sprite
+  /** Frame indices, an inclusive range, or explicit frames (default: every frame of sprite) */
+  frames?: Array<number | AnimationFrameConfig> | { start: number; end: number }
+  /** Frames per second for frames without a duration (default: the sprite's speed and speedType) */
+  speed?: number
+  /** Loop mode (default: loop) */
+  loop?: AnimationLoopMode
+  /** Events fired when a clip frame is entered, keyed by position in the clip - { 3: 'footstep' } */
+  events?: Record<number, string | string[]>
+}
+
+/**
+ * A resolved clip frame
+ */
+export interface AnimationClipFrame {
+  sprite: Sprite
+  frame: number
+  /** Milliseconds, or null to follow the sprite's speed at the engine's step rate */
+  duration: number | null
+  events: string[]
+}
+
+/**
+ * Named animation over frame ranges of one sprite or frames of several sprites
+ * Clips are immutable and can be shared between any number of animators
+ */
+export class AnimationClip {
+  public readonly name: string
+  public readonly loop: AnimationLoopMode
+  public readonly frames: readonly AnimationClipFrame[]
+
+  constructor(config: AnimationClipConfig) {
+    this.name = config.name
+    this.loop = config.loop ?? AnimationLoopMode.LOOP
+    this.frames = AnimationClip.resolveFrames(config)
+
+    if (this.frames.length === 0) {
+      throw new Error(`Animation clip '${config.name}' has no frames`)
+    }
+    for (const frame of this.frames) {
+      if (frame.duration !== null && !(frame.duration > 0)) {
+        throw new Error(`Animation clip '${config.name}' has a frame with invalid duration ${frame.duration}`)
+      }
+    }
+  }
+
+  private static resolveFrames(config: AnimationClipConfig): AnimationClipFrame[] {
+    const source = config.frames ?? (config.sprite ? { start: 0, end: config.sprite.frameCount - 1 } : [])
+    const entries: Array<number | AnimationFrameConfig> = Array.isArray(source)
+      ? source
+      : Array.from({ length: source.end - source.start + 1 }, (_, index) => source.start + index)
+
+    return entries.map((entry, index) => {
+      const frameConfig = typeof entry === 'number' ? { frame: entry } : entry
+      const sprite = frameConfig.sprite ?? config.sprite
+      if (!sprite) {
+        throw new Error(`Animation clip '${config.name}' frame ${index} has no sprite`)
+      }
+
+      const events: string[] = []
+      if (frameConfig.event) events.push(frameConfig.event)
+      const tagged = config.events?.[index]
+      if (tagged) events.push(...(Array.isArray(tagged) ? tagged : [tagged]))
+
+      return {
+        sprite,
+        frame: frameConfig.frame,
+        duration: frameConfig.duration ?? (config.speed !== undefined ? 1000 / config.speed : null),
+        events
+      }
+    })
+  }
+}
+
+/**
+ * Receives animator output - each GameObject provides one for its animator
+ */
+export interface AnimatorTarget {
+  /** Show a frame */
+  applyAnimationFrame(sprite: Sprite, frame: number): void
+  /** A frame tagged with an event was entered */
+  handleAnimationEvent(event: string, clip: string, frameIndex: number): void
+  /** A clip finished a cycle (every loop, once at the end for ONCE clips) */
+  handleAnimationEnd(clip: string): void
+}
+
+/**
+ * Per-object clip player - play clips by name, queue follow-up clips and get
+ * frame-tagged events. Advanced once per fixed step by its GameObject
+ */
+export class Animator {
+  private target: AnimatorTarget
+  private clips: Map<string, AnimationClip> = new Map()
+  private queue: string[] = []
+  private stepsPerSecond: number = 60
+
+  // Playback state
+  private current: AnimationClip | null = null
+  private frameIndex: number = 0
+  private frameTime: number = 0
+  private backwards: boolean = false
+  private finished: boolean = false
+
+  constructor(target: AnimatorTarget) {
+    this.target = target
+  }
+
+  /**
+   * Add a clip (or build one from a config), replacing any clip with the same name
+   */
+  public addClip(clip: AnimationClip | AnimationClipConfig): AnimationClip {
+    const resolved = clip instanceof AnimationClip ? clip : new AnimationClip(clip)
+    this.clips.set(resolved.name, resolved)
+    return resolved
+  }
+
+  public hasClip(name: string): boolean {
+    return this.clips.has(name)
+  }
+
+  public getClip(name: string): AnimationClip | undefined {
+    return this.clips.get(name)
+  }
+
+  /**
+   * Play a clip now, dropping any queued clips
+   * Playing the clip that is already running keeps its position unless restart is true
+   */
+  public play(name: string, restart: boolean = false): void {
+    this.queue = []
+    if (!restart && this.current?.name === name && !this.finished) return
+    this.start(this.requireClip(name))
+  }
+
+  /**
+   * Play a clip once the current one finishes its cycle (immediately if nothing is playing)
+   */
+  public queueClip(name: string): void {
+    const clip = this.requireClip(name)
+    if (!this.current || this.finished) {
+      this.start(clip)
+    } else {
+      this.queue.push(name)
+    }
+  }
+
+  /**
+   * Stop playback, leaving the current frame on screen
+   */
+  public stop(): void {
+    this.current = null
+    this.queue = []
+  }
+
+  public isPlaying(): boolean {
+    return this.current !== null && !this.finished
+  }
+
+  /**
+   * Get the name of the current clip (null if stopped)
+   */
+  public getCurrentClip(): string | null {
+    return this.current ? this.current.name : null
+  }
+
+  /**
+   * Get the position within the current clip
+   */
+  public getFrameIndex(): number {
+    return this.frameIndex
+  }
+
+  /**
+   * Advance playback by the given time in milliseconds
+   * stepsPerSecond converts the speed of frames-per-step sprites into frame durations
+   */
+  public update(elapsed: number, stepsPerSecond: number = 60): void {
+    if (!this.current || this.finished || elapsed <= 0) return
+
+    this.stepsPerSecond = stepsPerSecond
+    this.frameTime += elapsed
+    let duration = this.getFrameDuration(this.current.frames[this.frameIndex])
+    while (duration > 0 && this.frameTime >= duration) {
+      this.frameTime -= duration
+      if (!this.advance()) return
+      duration = this.getFrameDuration(this.current.frames[this.frameIndex])
+    }
+  }
+
+  /**
+   * Milliseconds a clip frame is shown - its own duration, else the sprite's speed
+   */
+  private getFrameDuration(frame: AnimationClipFrame): number {
+    return frame.duration ?? frame.sprite.getFrameDuration(this.stepsPerSecond)
+  }
+
+  /**
+   * Move to the next frame, returning false once playback can't continue this step
+   */
+  private advance(): boolean {
+    const clip = this.current!
+    const lastIndex = clip.frames.length - 1
+    let cycleComplete = false
+    let next = this.frameIndex
+
+    if (clip.loop === AnimationLoopMode.PING_PONG) {
+      if (lastIndex === 0) {
+        cycleComplete = true
+      } else if (this.backwards) {
+        next--
+        if (next <= 0) {
+          next = 0
+          this.backwards = false
+          cycleComplete = true
+        }
+      } else {
+        next++
+        if (next >= lastIndex) {
+          next = lastIndex
+          this.backwards = true
+        }
+      }
+    } else if (next >= lastIndex) {
+      cycleComplete = true
+      next = clip.loop === AnimationLoopMode.ONCE ? lastIndex : 0
+    } else {
+      next++
+    }
+
+    if (cycleComplete) {
+      if (clip.loop === AnimationLoopMode.ONCE) {
+        this.finished = true
+      }
+
+      this.target.handleAnimationEnd(clip.name)
+
+      // The end event may have started another clip
+      if (this.current !== clip) return false
+
+      const queued = this.queue.shift()
+      if (queued) {
+        this.start(this.requireClip(queued))
+        return true
+      }
+      if (this.finished) return false
+    }
+
+    this.enterFrame(next)
+    return this.current === clip
+  }
+
+  /**
+   * Copy clips, queue and playback position into a new animator for another target
+   */
+  public clone(target: AnimatorTarget): Animator {
+    const copy = new Animator(target)
+    copy.clips = new Map(this.clips)
+    copy.queue = [...this.queue]
+    copy.stepsPerSecond = this.stepsPerSecond
+    copy.current = this.current
+    copy.frameIndex = this.frameIndex
+    copy.frameTime = this.frameTime
+    copy.backwards = this.backwards
+    copy.finished = this.finished
+    return copy
+  }
+
+  /**
+   * Rewind clips, queue and playback position to a copy made with clone(), in place
+   * Used to reset a reused pooled instance - no frame is applied and no events fire
+   */
+  public reset(snapshot: Animator): void {
+    this.clips.clear()
+    for (const [name, clip] of snapshot.clips) {
+      this.clips.set(name, clip)
+    }
+    this.queue.length = 0
+    this.queue.push(...snapshot.queue)
+    this.stepsPerSecond = snapshot.stepsPerSecond
+    this.current = snapshot.current
+    this.frameIndex = snapshot.frameIndex
+    this.frameTime = snapshot.frameTime
+    this.backwards = snapshot.backwards
+    this.finished = snapshot.finished
+  }
+
+  private start(clip: AnimationClip): void {
+    this.current = clip
+    this.frameTime = 0
+    this.backwards = false
+    this.finished = false
+    this.enterFrame(0)
+  }
+
+  private enterFrame(index: number): void {
+    const clip = this.current!
+    this.frameIndex = index
+
+    const frame = clip.frames[index]
+    this.target.applyAnimationFrame(frame.sprite, frame.frame)
+    for (const event of frame.events) {
+      this.target.handleAnimationEvent(event, clip.name, index)
+    }
+  }
+
+  private requireClip(name: string): AnimationClip {
+    const clip = this.clips.get(name)
+    if (!clip) {
+      throw new Error(`Animation clip '${name}' not found`)
+    }
+    return clip
+  }
+}
@@ -1,4 +1,5 @@
 import { Engine } from './Engine.ts'
+import { BUILTIN_SYSTEM_PREFIX, EnginePhase } from './EngineSystem.ts'
 import type { EngineConfig } from './EngineConfig.ts'
 import { createDGCEngineConfig } from './EngineConfig.ts'
 import { GameObject } from './GameObject'
@@ -10,24 +11,51 @@ import type { Rapid } from 'rapid-render'
  * Games should extend this class to implement their specific logic
  */
 export abstract class DGCGame {
-  protected canvas: HTMLCanvasElement
+  protected canvas: HTMLCanvasElement | null
   protected engine: Engine
   protected rooms: Map<string, Room> = new Map()
   protected currentRoom?: Room
   protected isInitialized: boolean = false
+  protected isStarted: boolean = false
+  // Room start/end and game start/end events, run in order
+  private lifecycle: Promise<void> = Promise.resolve()
 
-  constructor(canvas: HTMLCanvasElement) {
-    this.canvas = canvas
+  /**
+   * @param canvas - Canvas to render to (omit when the engine config enables headless mode)
+   */
+  constructor(canvas?: HTMLCanvasElement) {
+    this.canvas = canvas ?? null
     
     // Create the DGC engine with the game's configuration
     const userConfig = this.getEngineConfig()
     const config = createDGCEngineConfig(userConfig, canvas)
     
-    // Let the game configure canvas dimensions
-    this.configureCanvas(config)
+    // Let the game configure canvas dimensions (headless games have no canvas)
+    if (this.canvas) {
+      this.configureCanvas(config)
+    }
     
     this.engine = new Engine(config)
     
+    // The current room takes part in every frame: its step runs before instances step,
+    // and its draw/draw end scripts run around instance draws
+    this.engine.registerBuiltinSystem({
+      name: `${BUILTIN_SYSTEM_PREFIX}room`,
+      priority: -1000,
+      beforePhase: (phase, context) => {
+        if (phase === EnginePhase.STEP && !context.paused) {
+          this.step()
+        } else if (phase === EnginePhase.DRAW) {
+          this.draw()
+        }
+      },
+      afterPhase: (phase) => {
+        if (phase === EnginePhase.DRAW) {
+          this.drawEnd()
+        }
+      }
+    })
+    
     console.log('🏗️ DGCGame initialized with direct room management')
   }
 
@@ -41,14 +69,16 @@ export abstract class DGCGame {
    * Configure canvas dimensions - can be overridden by subclasses
    */
   protected configureCanvas(_config: Required<EngineConfig>): void {
+    const canvas = this.getCanvas()
+    
     // Default implementation - set canvas to a reasonable size if not specified
-    console.log(`🔧 Canvas dimensions before config: ${this.canvas.width}x${this.canvas.height}`)
+    console.log(`🔧 Canvas dimensions before config: ${canvas.width}x${canvas.height}`)
     
     // Always set canvas dimensions explicitly
-    this.canvas.width = 800
-    this.canvas.height = 600
+    canvas.width = 800
+    canvas.height = 600
     
-    console.log(`🎮 Canvas dimensions after config: ${this.canvas.width}x${this.canvas.height}`)
+    console.log(`🎮 Canvas dimensions after config: ${canvas.width}x${canvas.height}`)
   }
 
   /**
@@ -77,25 +107,84 @@ export abstract class DGCGame {
   }
 
   /**
-   * Start the game
+   * Start the game loop
+   * Queues 'game_start' followed by the current room's start ('room_start'). The loop starts
+   * right away, so async listeners and room hooks may still be running during the first
+   * frames; their errors are logged rather than thrown
    */
   public start(): void {
     if (!this.isInitialized) {
       throw new Error('Game must be initialized before starting')
     }
+    if (this.isStarted) {
+      return
+    }
     
     console.log('🚀 Starting DGC Game')
+    this.isStarted = true
+    const room = this.currentRoom
+    this.queueLifecycle('start', async () => {
+      await this.engine.getEventManager().emitGlobalEvent('game_start', { game: this })
+      if (room) {
+        await this.startRoom(room)
+      }
+    })
     this.engine.start()
   }
 
   /**
-   * Stop the game
+   * Stop the game loop
+   * Queues the current room's end ('room_end') followed by 'game_end'; like start(), the
+   * loop stops right away and errors from async listeners and room hooks are logged
    */
   public stop(): void {
     console.log('⏹️ Stopping DGC Game')
+    if (this.isStarted) {
+      this.isStarted = false
+      const room = this.currentRoom
+      this.queueLifecycle('stop', async () => {
+        if (room) {
+          await this.endRoom(room)
+        }
+        await this.engine.getEventManager().emitGlobalEvent('game_end', { game: this })
+      })
+    }
     this.engine.stop()
   }
 
+  /**
+   * Wait until the lifecycle events queued by start(), stop() and goToRoom() have finished
+   */
+  public whenLifecycleIdle(): Promise<void> {
+    return this.lifecycle
+  }
+
+  /**
+   * Run a lifecycle task after the ones already queued, so room start/end events never interleave
+   */
+  private queueLifecycle(label: string, task: () => Promise<void>): Promise<void> {
+    this.lifecycle = this.lifecycle.then(task).catch(error => {
+      console.error(`❌ DGC Game ${label} failed:`, error)
+    })
+    return this.lifecycle
+  }
+
+  /**
+   * Run a room's start hook followed by the global 'room_start' event
+   */
+  private async startRoom(room: Room): Promise<void> {
+    await room.onRoomStart()
+    await this.engine.getEventManager().emitGlobalEvent('room_start', { room })
+  }
+
+  /**
+   * Run a room's end hook followed by the global 'room_end' event
+   */
+  private async endRoom(room: Room): Promise<void> {
+    await room.onRoomEnd()
+    await this.engine.getEventManager().emitGlobalEvent('room_end', { room })
+  }
+
   /**
    * Get the game engine
    */
@@ -114,6 +203,9 @@ export abstract class DGCGame {
 
   /**
    * Go to a specific room
+   * Once the game has started, the old room ends ('room_end') before its objects are
+   * removed, and the new room starts ('room_start') after its objects are added.
+   * Before start(), the room start is deferred until start() is called
    */
   public async goToRoom(roomName: string): Promise<boolean> {
     const newRoom = this.rooms.get(roomName)
@@ -124,6 +216,11 @@ export abstract class DGCGame {
 
     // Deactivate and cleanup current room
     if (this.currentRoom) {
+      if (this.isStarted) {
+        const room = this.currentRoom
+        await this.queueLifecycle('room end', () => this.endRoom(room))
+      }
+      
       // Remove all game objects from the engine
       for (const gameObject of this.currentRoom.getGameObjects()) {
         this.removeGameObject(gameObject)
@@ -152,6 +249,10 @@ export abstract class DGCGame {
       }
     }
     
+    if (this.isStarted) {
+      await this.queueLifecycle('room start', () => this.startRoom(newRoom))
+    }
+    
     return true
   }
 
@@ -178,8 +279,12 @@ export abstract class DGCGame {
 
   /**
    * Get the canvas element
+   * Throws for headless games, which have no canvas
    */
   public getCanvas(): HTMLCanvasElement {
+    if (!this.canvas) {
+      throw new Error('Canvas is not available in headless mode')
+    }
     return this.canvas
   }
 
@@ -292,21 +397,31 @@ export abstract class DGCGame {
 
   /**
    * Execute step logic for the current room
-   * Called automatically by the engine's game loop
+   * Called automatically by the engine's game loop, before instances step
    */
-  public async step(): Promise<void> {
+  public step(): void {
     if (this.currentRoom) {
-      await this.currentRoom.step()
+      this.currentRoom.step()
     }
   }
 
   /**
    * Execute draw logic for the current room
-   * Called automatically by the engine's game loop
+   * Called automatically by the engine's game loop, before instances draw
+   */
+  public draw(): void {
+    if (this.currentRoom) {
+      this.currentRoom.draw()
+    }
+  }
+
+  /**
+   * Execute draw end logic for the current room
+   * Called automatically by the engine's game loop, after instances draw
    */
-  public async draw(): Promise<void> {
+  public drawEnd(): void {
     if (this.currentRoom) {
-      await this.currentRoom.draw()
+      this.currentRoom.drawEnd()
     }
   }
 }
@@ -0,0 +1,577 @@
+import type { Bounds } from './SpatialHash.ts'
+import type { Sprite } from './Sprite.ts'
+
+/**
+ * A point in local or world space
+ */
+export interface Point {
+  x: number
+  y: number
+}
+
+/**
+ * Where and how an instance's mask is placed in the world
+ * Angle is in degrees, using the same convention as DrawingSystem rotation
+ */
+export interface MaskTransform {
+  x: number
+  y: number
+  xScale: number
+  yScale: number
+  angle: number
+  frame: number
+}
+
+/**
+ * A mask placed in the world, ready for overlap tests
+ * Polygons are convex; rectangles of any kind become polygons
+ */
+export type CollisionShape =
+  | { type: 'polygon'; points: Point[]; bounds: Bounds }
+  | { type: 'circle'; x: number; y: number; radius: number; bounds: Bounds }
+  | { type: 'precise'; mask: PreciseMask; transform: MaskTransform; bounds: Bounds }
+
+/**
+ * Base class for collision masks
+ * Masks are defined in local space around the instance origin (x, y) and shared
+ * between instances - the instance's scale, angle and frame are applied per check
+ */
+export abstract class CollisionMask {
+  /**
+   * Place the mask in the world
+   */
+  public abstract toShape(transform: MaskTransform): CollisionShape
+}
+
+/**
+ * Axis-aligned rectangle - scales with the instance but ignores imageAngle
+ */
+export class RectangleMask extends CollisionMask {
+  public readonly left: number
+  public readonly top: number
+  public readonly right: number
+  public readonly bottom: number
+
+  constructor(left: number, top: number, right: number, bottom: number) {
+    super()
+    this.left = left
+    this.top = top
+    this.right = right
+    this.bottom = bottom
+  }
+
+  public toShape(transform: MaskTransform): CollisionShape {
+    return rectangleShape(
+      transform.x + this.left * transform.xScale,
+      transform.y + this.top * transform.yScale,
+      transform.x + this.right * transform.xScale,
+      transform.y + this.bottom * transform.yScale
+    )
+  }
+}
+
+/**
+ * Rectangle that scales and rotates with the instance
+ */
+export class RotatedRectangleMask extends CollisionMask {
+  private static spriteMasks: WeakMap<Sprite, RotatedRectangleMask> = new WeakMap()
+
+  public readonly left: number
+  public readonly top: number
+  public readonly right: number
+  public readonly bottom: number
+
+  constructor(left: number, top: number, right: number, bottom: number) {
+    super()
+    this.left = left
+    this.top = top
+    this.right = right
+    this.bottom = bottom
+  }
+
+  /**
+   * Get the frame rectangle of a sprite around its origin (cached per sprite)
+   * This is the default mask for instances with a sprite
+   */
+  public static fromSprite(sprite: Sprite): RotatedRectangleMask {
+    const cached = RotatedRectangleMask.spriteMasks.get(sprite)
+    // Frame size is only known once the image has loaded
+    if (cached && cached.right - cached.left === sprite.frameWidth && cached.bottom - cached.top === sprite.frameHeight) {
+      return cached
+    }
+
+    const left = -sprite.frameWidth * sprite.origin.x
+    const top = -sprite.frameHeight * sprite.origin.y
+    const mask = new RotatedRectangleMask(left, top, left + sprite.frameWidth, top + sprite.frameHeight)
+    RotatedRectangleMask.spriteMasks.set(sprite, mask)
+    return mask
+  }
+
+  public toShape(transform: MaskTransform): CollisionShape {
+    return polygonShape([
+      transformPoint(this.left, this.top, transform),
+      transformPoint(this.right, this.top, transform),
+      transformPoint(this.right, this.bottom, transform),
+      transformPoint(this.left, this.bottom, transform)
+    ])
+  }
+}
+
+/**
+ * Circle around a local center point
+ * Non-uniform scale is approximated by scaling the radius with the larger axis
+ */
+export class CircleMask extends CollisionMask {
+  public readonly x: number
+  public readonly y: number
+  public readonly radius: number
+
+  constructor(radius: number, x: number = 0, y: number = 0) {
+    super()
+    if (!(radius >= 0)) {
+      throw new Error(`Invalid circle mask radius: ${radius}`)
+    }
+    this.radius = radius
+    this.x = x
+    this.y = y
+  }
+
+  public toShape(transform: MaskTransform): CollisionShape {
+    const center = transformPoint(this.x, this.y, transform)
+    const radius = this.radius * Math.max(Math.abs(transform.xScale), Math.abs(transform.yScale))
+    return circleShape(center.x, center.y, radius)
+  }
+}
+
+/**
+ * Convex polygon that scales and rotates with the instance
+ */
+export class PolygonMask extends CollisionMask {
+  public readonly points: readonly Point[]
+
+  constructor(points: Point[]) {
+    super()
+    if (points.length < 3) {
+      throw new Error(`Polygon mask needs at least 3 points, got ${points.length}`)
+    }
+    this.points = points.map(point => ({ x: point.x, y: point.y }))
+  }
+
+  public toShape(transform: MaskTransform): CollisionShape {
+    return polygonShape(this.points.map(point => transformPoint(point.x, point.y, transform)))
+  }
+}
+
+/**
+ * Per-pixel mask - one bit per pixel per frame, solid where the sprite's alpha
+ * is above a tolerance. Build it with PreciseMask.fromSprite once the sprite has loaded
+ */
+export class PreciseMask extends CollisionMask {
+  private static spriteMasks: WeakMap<Sprite, Map<number, PreciseMask>> = new WeakMap()
+
+  public readonly width: number
+  public readonly height: number
+  /** Pixel in the mask that sits on the instance position */
+  public readonly originX: number
+  public readonly originY: number
+  private frames: Uint8Array[]
+  private frameBounds: (Bounds | null)[]
+
+  /**
+   * @param frames One array per frame, width * height entries, non-zero = solid
+   */
+  constructor(width: number, height: number, frames: Uint8Array[], originX: number = 0, originY: number = 0) {
+    super()
+    if (frames.length === 0) {
+      throw new Error('Precise mask needs at least one frame')
+    }
+    for (const frame of frames) {
+      if (frame.length !== width * height) {
+        throw new Error(`Precise mask frame has ${frame.length} pixels, expected ${width * height}`)
+      }
+    }
+
+    this.width = width
+    this.height = height
+    this.originX = originX
+    this.originY = originY
+    this.frames = frames
+    this.frameBounds = frames.map(frame => PreciseMask.computeFrameBounds(frame, width, height))
+  }
+
+  /**
+   * Generate a mask from a loaded sprite's alpha channel (cached per sprite and tolerance)
+   * Pixels with alpha above alphaTolerance (0-255) are solid
+   */
+  public static fromSprite(sprite: Sprite, alphaTolerance: number = 0): PreciseMask {
+    let masks = PreciseMask.spriteMasks.get(sprite)
+    const cached = masks?.get(alphaTolerance)
+    if (cached) return cached
+
+    if (!sprite.isLoaded()) {
+      throw new Error(`Cannot build a precise mask for sprite '${sprite.name}' before it has loaded`)
+    }
+
+    const width = sprite.frameWidth
+    const height = sprite.frameHeight
+    const canvas = document.createElement('canvas')
+    canvas.width = sprite.image.width
+    canvas.height = sprite.image.height
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) {
+      throw new Error(`Cannot read pixels of sprite '${sprite.name}'`)
+    }
+    context.drawImage(sprite.image, 0, 0)
+
+    const frames: Uint8Array[] = []
+    for (let frame = 0; frame < sprite.frameCount; frame++) {
+      const rect = sprite.getFrameRect(frame)
+      const pixels = context.getImageData(rect.x, rect.y, width, height).data
+      const bits = new Uint8Array(width * height)
+      for (let i = 0; i < bits.length; i++) {
+        bits[i] = pixels[i * 4 + 3] > alphaTolerance ? 1 : 0
+      }
+      frames.push(bits)
+    }
+
+    const mask = new PreciseMask(width, height, frames, width * sprite.origin.x, height * sprite.origin.y)
+    if (!masks) {
+      masks = new Map()
+      PreciseMask.spriteMasks.set(sprite, masks)
+    }
+    masks.set(alphaTolerance, mask)
+    return mask
+  }
+
+  public getFrameCount(): number {
+    return this.frames.length
+  }
+
+  /**
+   * Check if a local mask pixel is solid
+   */
+  public isSolid(frame: number, px: number, py: number): boolean {
+    if (px < 0 || py < 0 || px >= this.width || py >= this.height) return false
+    return this.frames[this.wrapFrame(frame)][py * this.width + px] !== 0
+  }
+
+  /**
+   * Check if a world point lands on a solid pixel
+   */
+  public containsPoint(transform: MaskTransform, x: number, y: number): boolean {
+    if (transform.xScale === 0 || transform.yScale === 0) return false
+
+    const local = inverseTransformPoint(x, y, transform)
+    return this.isSolid(transform.frame, Math.floor(local.x + this.originX), Math.floor(local.y + this.originY))
+  }
+
+  public toShape(transform: MaskTransform): CollisionShape {
+    const frameBounds = this.frameBounds[this.wrapFrame(transform.frame)]
+    if (!frameBounds) {
+      // Fully transparent frame - nothing can touch it
+      const empty = { left: transform.x, top: transform.y, right: transform.x, bottom: transform.y }
+      return { type: 'precise', mask: this, transform: { ...transform }, bounds: empty }
+    }
+
+    const left = frameBounds.left - this.originX
+    const top = frameBounds.top - this.originY
+    const right = frameBounds.right - this.originX
+    const bottom = frameBounds.bottom - this.originY
+    const corners = [
+      transformPoint(left, top, transform),
+      transformPoint(right, top, transform),
+      transformPoint(right, bottom, transform),
+      transformPoint(left, bottom, transform)
+    ]
+
+    return { type: 'precise', mask: this, transform: { ...transform }, bounds: boundsOf(corners) }
+  }
+
+  private wrapFrame(frame: number): number {
+    const count = this.frames.length
+    return ((Math.floor(frame) % count) + count) % count
+  }
+
+  private static computeFrameBounds(frame: Uint8Array, width: number, height: number): Bounds | null {
+    let left = width
+    let top = height
+    let right = -1
+    let bottom = -1
+
+    for (let py = 0; py < height; py++) {
+      for (let px = 0; px < width; px++) {
+        if (frame[py * width + px] === 0) continue
+        if (px < left) left = px
+        if (px > right) right = px
+        if (py < top) top = py
+        if (py > bottom) bottom = py
+      }
+    }
+
+    return right < 0 ? null : { left, top, right: right + 1, bottom: bottom + 1 }
+  }
+}
+
+/**
+ * Build a world-space convex polygon shape
+ */
+export function polygonShape(points: Point[]): CollisionShape {
+  return { type: 'polygon', points, bounds: boundsOf(points) }
+}
+
+/**
+ * Build a world-space circle shape
+ */
+export function circleShape(x: number, y: number, radius: number): CollisionShape {
+  return {
+    type: 'circle',
+    x,
+    y,
+    radius,
+    bounds: { left: x - radius, top: y - radius, right: x + radius, bottom: y + radius }
+  }
+}
+
+/**
+ * Build a world-space axis-aligned rectangle shape from any two opposite corners
+ */
+export function rectangleShape(x1: number, y1: number, x2: number, y2: number): CollisionShape {
+  const left = Math.min(x1, x2)
+  const right = Math.max(x1, x2)
+  const top = Math.min(y1, y2)
+  const bottom = Math.max(y1, y2)
+  return polygonShape([{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }])
+}
+
+/**
+ * Build a world-space line segment shape (a two-point polygon)
+ */
+export function lineShape(x1: number, y1: number, x2: number, y2: number): CollisionShape {
+  return polygonShape([{ x: x1, y: y1 }, { x: x2, y: y2 }])
+}
+
+/**
+ * Check if two world-space shapes overlap (touching edges don't count)
+ */
+export function shapesOverlap(a: CollisionShape, b: CollisionShape): boolean {
+  if (!boundsOverlap(a.bounds, b.bounds)) return false
+
+  if (a.type === 'precise' || b.type === 'precise') {
+    return preciseOverlap(a, b)
+  }
+  if (a.type === 'circle' && b.type === 'circle') {
+    const dx = a.x - b.x
+    const dy = a.y - b.y
+    const radii = a.radius + b.radius
+    return dx * dx + dy * dy < radii * radii
+  }
+  if (a.type === 'polygon' && b.type === 'polygon') {
+    return polygonsOverlap(a.points, b.points)
+  }
+  if (a.type === 'polygon' && b.type === 'circle') {
+    return polygonCircleOverlap(a.points, b.x, b.y, b.radius)
+  }
+  if (a.type === 'circle' && b.type === 'polygon') {
+    return polygonCircleOverlap(b.points, a.x, a.y, a.radius)
+  }
+  return false
+}
+
+/**
+ * Check if a world point is inside a shape
+ */
+export function shapeContainsPoint(shape: CollisionShape, x: number, y: number): boolean {
+  if (x < shape.bounds.left || x >= shape.bounds.right || y < shape.bounds.top || y >= shape.bounds.bottom) {
+    return false
+  }
+
+  switch (shape.type) {
+    case 'circle': {
+      const dx = x - shape.x
+      const dy = y - shape.y
+      return dx * dx + dy * dy < shape.radius * shape.radius
+    }
+    case 'polygon':
+      return convexContainsPoint(shape.points, x, y)
+    case 'precise':
+      return shape.mask.containsPoint(shape.transform, x, y)
+  }
+}
+
+/**
+ * Strict AABB overlap test
+ */
+export function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top
+}
+
+function boundsOf(points: Point[]): Bounds {
+  let left = Infinity
+  let top = Infinity
+  let right = -Infinity
+  let bottom = -Infinity
+
+  for (const point of points) {
+    if (point.x < left) left = point.x
+    if (point.x > right) right = point.x
+    if (point.y < top) top = point.y
+    if (point.y > bottom) bottom = point.y
+  }
+
+  return { left, top, right, bottom }
+}
+
+function transformPoint(x: number, y: number, transform: MaskTransform): Point {
+  const sx = x * transform.xScale
+  const sy = y * transform.yScale
+  if (transform.angle === 0) {
+    return { x: transform.x + sx, y: transform.y + sy }
+  }
+
+  const radians = transform.angle * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  return {
+    x: transform.x + sx * cos - sy * sin,
+    y: transform.y + sx * sin + sy * cos
+  }
+}
+
+function inverseTransformPoint(x: number, y: number, transform: MaskTransform): Point {
+  let dx = x - transform.x
+  let dy = y - transform.y
+  if (transform.angle !== 0) {
+    const radians = transform.angle * Math.PI / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const rx = dx * cos + dy * sin
+    const ry = -dx * sin + dy * cos
+    dx = rx
+    dy = ry
+  }
+  return { x: dx / transform.xScale, y: dy / transform.yScale }
+}
+
+/**
+ * Precise masks are compared pixel by pixel over the overlapping area
+ */
+function preciseOverlap(a: CollisionShape, b: CollisionShape): boolean {
+  // A line has no area to scan - walk along it instead
+  if (a.type === 'polygon' && a.points.length === 2) return preciseLineOverlap(b, a.points[0], a.points[1])
+  if (b.type === 'polygon' && b.points.length === 2) return preciseLineOverlap(a, b.points[0], b.points[1])
+
+  const left = Math.floor(Math.max(a.bounds.left, b.bounds.left))
+  const top = Math.floor(Math.max(a.bounds.top, b.bounds.top))
+  const right = Math.ceil(Math.min(a.bounds.right, b.bounds.right))
+  const bottom = Math.ceil(Math.min(a.bounds.bottom, b.bounds.bottom))
+
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      // Sample pixel centers
+      if (shapeContainsPoint(a, px + 0.5, py + 0.5) && shapeContainsPoint(b, px + 0.5, py + 0.5)) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
+function preciseLineOverlap(shape: CollisionShape, p1: Point, p2: Point): boolean {
+  // Half-pixel steps so the line can't skip over a solid pixel
+  const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) * 2))
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps
+    if (shapeContainsPoint(shape, p1.x + (p2.x - p1.x) * t, p1.y + (p2.y - p1.y) * t)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Separating axis test for convex polygons
+ */
+function polygonsOverlap(a: Point[], b: Point[]): boolean {
+  return !hasSeparatingEdge(a, b) && !hasSeparatingEdge(b, a)
+}
+
+function hasSeparatingEdge(polygon: Point[], other: Point[]): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    const p1 = polygon[i]
+    const p2 = polygon[(i + 1) % polygon.length]
+    const axis = { x: p1.y - p2.y, y: p2.x - p1.x }
+    if (axis.x === 0 && axis.y === 0) continue
+
+    const [minA, maxA] = projectPoints(polygon, axis)
+    const [minB, maxB] = projectPoints(other, axis)
+    if (maxA <= minB || maxB <= minA) return true
+  }
+  return false
+}
+
+function polygonCircleOverlap(polygon: Point[], cx: number, cy: number, radius: number): boolean {
+  if (hasSeparatingEdgeFromCircle(polygon, cx, cy, radius)) return false
+
+  // Axis from the circle center to the closest vertex covers the corner regions
+  let closest = polygon[0]
+  let closestDistance = Infinity
+  for (const point of polygon) {
+    const distance = (point.x - cx) ** 2 + (point.y - cy) ** 2
+    if (distance < closestDistance) {
+      closest = point
+      closestDistance = distance
+    }
+  }
+  if (closestDistance === 0) return true
+
+  const axis = { x: closest.x - cx, y: closest.y - cy }
+  return !separatedFromCircle(polygon, axis, cx, cy, radius)
+}
+
+function hasSeparatingEdgeFromCircle(polygon: Point[], cx: number, cy: number, radius: number): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    const p1 = polygon[i]
+    const p2 = polygon[(i + 1) % polygon.length]
+    const axis = { x: p1.y - p2.y, y: p2.x - p1.x }
+    if (axis.x === 0 && axis.y === 0) continue
+    if (separatedFromCircle(polygon, axis, cx, cy, radius)) return true
+  }
+  return false
+}
+
+function separatedFromCircle(polygon: Point[], axis: Point, cx: number, cy: number, radius: number): boolean {
+  const length = Math.hypot(axis.x, axis.y)
+  const unit = { x: axis.x / length, y: axis.y / length }
+  const [min, max] = projectPoints(polygon, unit)
+  const center = cx * unit.x + cy * unit.y
+  return max <= center - radius || center + radius <= min
+}
+
+function projectPoints(points: Point[], axis: Point): [number, number] {
+  let min = Infinity
+  let max = -Infinity
+  for (const point of points) {
+    const projection = point.x * axis.x + point.y * axis.y
+    if (projection < min) min = projection
+    if (projection > max) max = projection
+  }
+  return [min, max]
+}
+
+function convexContainsPoint(polygon: Point[], x: number, y: number): boolean {
+  // Inside when the point is on the same side of every edge (either winding)
+  let sign = 0
+  for (let i = 0; i < polygon.length; i++) {
+    const p1 = polygon[i]
+    const p2 = polygon[(i + 1) % polygon.length]
+    const cross = (p2.x - p1.x) * (y - p1.y) - (p2.y - p1.y) * (x - p1.x)
+    if (cross === 0) continue
+    const side = cross > 0 ? 1 : -1
+    if (sign === 0) {
+      sign = side
+    } else if (side !== sign) {
+      return false
+    }
+  }
+  return true
+}
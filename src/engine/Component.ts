@@ -0,0 +1,147 @@
+import type { GameObject } from './GameObject'
+import { copyValue, restoreValue } from './StateCopy.ts'
+
+/**
+ * Component hooks the engine calls in the matching GameObject event phases
+ */
+export type ComponentHook =
+  | 'onStepBegin'
+  | 'onStep'
+  | 'onStepEnd'
+  | 'onDrawBegin'
+  | 'onDraw'
+  | 'onDrawEnd'
+  | 'onDrawGUIBegin'
+  | 'onDrawGUI'
+  | 'onDrawGUIEnd'
+  | 'onDestroy'
+
+/**
+ * Constructor of a component class, used for typed lookups - obj.getComponent(Health)
+ */
+export type ComponentType<T extends Component = Component> = abstract new (...args: any[]) => T
+
+/**
+ * Reusable behaviour attached to a GameObject ("health", "blink when hit", "follow path")
+ * Override the hooks you need; they run right after the owner's own event of the same name
+ */
+export class Component {
+  // Disabled components stay attached but their hooks are skipped
+  public enabled: boolean = true
+
+  private owner: GameObject | null = null
+
+  /**
+   * The GameObject this component is attached to
+   */
+  public get gameObject(): GameObject {
+    if (!this.owner) {
+      throw new Error(`${this.constructor.name} is not attached to a GameObject`)
+    }
+    return this.owner
+  }
+
+  /**
+   * Check if the component is attached to a GameObject
+   */
+  public isAttached(): boolean {
+    return this.owner !== null
+  }
+
+  /**
+   * Set the owning GameObject (called by GameObject.addComponent/removeComponent)
+   */
+  public setGameObject(owner: GameObject | null): void {
+    this.owner = owner
+  }
+
+  /**
+   * Create a detached copy for a cloned GameObject, fields copied with copyValue
+   * Override to customise the copy
+   */
+  public clone(): this {
+    const copy = Object.create(Object.getPrototypeOf(this)) as this
+    const source = this as Record<string, unknown>
+    const target = copy as Record<string, unknown>
+    for (const key of Object.keys(this)) {
+      target[key] = copyValue(source[key])
+    }
+    copy.owner = null
+    return copy
+  }
+
+  /**
+   * Rewind fields to a copy made with clone(), keeping the owner
+   * Used to reset the components of a reused pooled instance
+   */
+  public reset(snapshot: this): void {
+    const fields = this as Record<string, unknown>
+    for (const key of Object.keys(this)) {
+      if (key !== 'owner' && !(key in snapshot)) {
+        delete fields[key]
+      }
+    }
+    for (const key of Object.keys(snapshot)) {
+      if (key !== 'owner') {
+        fields[key] = restoreValue(fields[key], (snapshot as Record<string, unknown>)[key])
+      }
+    }
+  }
+
+  /**
+   * Called after the component is added to a GameObject
+   */
+  public onAttach(): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Called before the component is removed from its GameObject
+   */
+  public onDetach(): void {
+    // Override in subclasses
+  }
+
+  public onStepBegin(): void {
+    // Override in subclasses
+  }
+
+  public onStep(): void {
+    // Override in subclasses
+  }
+
+  public onStepEnd(): void {
+    // Override in subclasses
+  }
+
+  public onDrawBegin(): void {
+    // Override in subclasses
+  }
+
+  public onDraw(): void {
+    // Override in subclasses
+  }
+
+  public onDrawEnd(): void {
+    // Override in subclasses
+  }
+
+  public onDrawGUIBegin(): void {
+    // Override in subclasses
+  }
+
+  public onDrawGUI(): void {
+    // Override in subclasses
+  }
+
+  public onDrawGUIEnd(): void {
+    // Override in subclasses
+  }
+
+  /**
+   * Called when the owning GameObject is destroyed
+   */
+  public onDestroy(): void {
+    // Override in subclasses
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Wait a number of fixed steps before resuming
+ */
+export interface WaitFrames {
+  readonly type: 'wait_frames'
+  readonly frames: number
+}
+
+/**
+ * Wait until a condition is true, checked once per fixed step
+ */
+export interface WaitUntil {
+  readonly type: 'wait_until'
+  readonly condition: () => boolean
+}
+
+/**
+ * What a coroutine can yield - a bare `yield` waits a single step
+ */
+export type CoroutineInstruction = WaitFrames | WaitUntil | void
+
+/**
+ * Generator type for coroutine bodies
+ */
+export type CoroutineGenerator = Generator<CoroutineInstruction, void, void>
+
+/**
+ * Resume after the given number of steps - `yield waitFrames(30)`
+ */
+export function waitFrames(frames: number): WaitFrames {
+  return { type: 'wait_frames', frames }
+}
+
+/**
+ * Resume once the condition returns true - `yield waitUntil(() => this.y > 100)`
+ */
+export function waitUntil(condition: () => boolean): WaitUntil {
+  return { type: 'wait_until', condition }
+}
+
+/**
+ * Resume once the condition returns false - `yield waitWhile(() => this.isMoving)`
+ */
+export function waitWhile(condition: () => boolean): WaitUntil {
+  return { type: 'wait_until', condition: () => !condition() }
+}
+
+/**
+ * A running coroutine - a generator advanced once per fixed step by its GameObject
+ * Replaces hand-rolled state machines for cutscenes and turn animations while keeping
+ * frame ordering deterministic (unlike awaiting Promises inside events)
+ */
+export class Coroutine {
+  private generator: CoroutineGenerator
+  private framesRemaining: number = 0
+  private condition: (() => boolean) | null = null
+  private finished: boolean = false
+  private running: boolean = false
+  private returnPending: boolean = false
+
+  constructor(generator: CoroutineGenerator) {
+    this.generator = generator
+  }
+
+  /**
+   * Check if the coroutine has completed or been cancelled
+   */
+  public isFinished(): boolean {
+    return this.finished
+  }
+
+  /**
+   * Stop the coroutine, running any `finally` blocks in its body
+   */
+  public cancel(): void {
+    if (this.finished) return
+
+    this.finished = true
+
+    // Cancelled from inside its own body - the generator can't be closed until next() returns
+    if (this.running) {
+      this.returnPending = true
+      return
+    }
+    this.generator.return()
+  }
+
+  /**
+   * Advance by one step (called by GameObject.updateCoroutines)
+   */
+  public step(): void {
+    if (this.finished) return
+
+    // Still waiting?
+    if (this.framesRemaining > 0) {
+      this.framesRemaining--
+      if (this.framesRemaining > 0) return
+    }
+    if (this.condition) {
+      if (!this.condition()) return
+      this.condition = null
+    }
+
+    let result: IteratorResult<CoroutineInstruction, void>
+    this.running = true
+    try {
+      result = this.generator.next()
+    } catch (error) {
+      // A generator that throws is closed - make sure it isn't resumed again
+      this.finished = true
+      this.returnPending = false
+      throw error
+    } finally {
+      this.running = false
+    }
+
+    if (this.returnPending) {
+      this.returnPending = false
+      this.generator.return()
+      return
+    }
+
+    if (result.done) {
+      this.finished = true
+      return
+    }
+
+    const instruction = result.value
+    if (!instruction) {
+      this.framesRemaining = 1
+    } else if (instruction.type === 'wait_frames') {
+      this.framesRemaining = Math.max(1, Math.floor(instruction.frames))
+    } else {
+      this.condition = instruction.condition
+    }
+  }
+}
@@ -1,30 +1,87 @@
 import { Rapid } from 'rapid-render'
 import { EventManager } from './EventManager'
 import { GameObjectManager, type ObjectFilter } from './GameObjectManager'
-import { GameObject } from './GameObject'
+import { GameObject, GameEvent } from './GameObject'
 import { DrawingSystem } from './DrawingSystem.ts'
+import { HeadlessDrawingSystem } from './HeadlessDrawingSystem.ts'
 import type { EngineConfig } from './EngineConfig.ts'
 import { createDGCEngineConfig } from './EngineConfig.ts'
 import { InputManager } from './InputManager'
+import { InputRecorder } from './InputRecorder.ts'
+import { Random } from './Random.ts'
+import { Profiler } from './Profiler.ts'
+import { ErrorPolicy, type ObjectErrorEvent } from './ErrorPolicy.ts'
+import { EnginePhase, SystemRegistry, type EngineSystem, type EngineSystemContext } from './EngineSystem.ts'
+import { Component, type ComponentHook } from './Component.ts'
+
+/**
+ * Phase names reported by the profiler for each virtual event method
+ */
+const VIRTUAL_EVENT_PHASES: Partial<Record<keyof GameObject, string>> = {
+  updateTimers: GameEvent.TIMER,
+  onStepBegin: GameEvent.STEP_BEGIN,
+  updateAlarms: GameEvent.ALARM,
+  onStep: GameEvent.STEP,
+  stepState: 'state_step',
+  updateCoroutines: 'coroutines',
+  updateMotion: 'motion',
+  onStepEnd: GameEvent.STEP_END,
+  applyStateTransition: 'state_transition',
+  updateAnimation: 'animation',
+  onDrawBegin: GameEvent.DRAW_BEGIN,
+  onDraw: GameEvent.DRAW,
+  drawState: 'state_draw',
+  onDrawEnd: GameEvent.DRAW_END,
+  onDrawGUIBegin: GameEvent.DRAW_GUI_BEGIN,
+  onDrawGUI: GameEvent.DRAW_GUI,
+  onDrawGUIEnd: GameEvent.DRAW_GUI_END
+}
+
+// Virtual event methods whose matching component hooks run right after them
+const COMPONENT_HOOK_METHODS: ReadonlySet<keyof GameObject> = new Set<ComponentHook>([
+  'onStepBegin',
+  'onStep',
+  'onStepEnd',
+  'onDrawBegin',
+  'onDraw',
+  'onDrawEnd',
+  'onDrawGUIBegin',
+  'onDrawGUI',
+  'onDrawGUIEnd'
+])
 
 /**
  * DGC game engine powered by Rapid.js
  * This engine uses Rapid.js for immediate mode rendering
+ * In headless mode it runs without a canvas or renderer and is driven with tick()
  */
 export class Engine {
-  private rapid: Rapid
+  private rapid: Rapid | null
   private config: Required<EngineConfig>
   private eventManager: EventManager
   private gameObjectManager: GameObjectManager
   private inputManager: InputManager
   private drawingSystem: DrawingSystem
+  private random: Random
+  private inputRecorder: InputRecorder
+  private profiler: Profiler = new Profiler()
+  private errorPolicy: ErrorPolicy
+  private haltEvent: ObjectErrorEvent | null = null  // Error that halted a strict engine
+  private componentPhases: Map<string, Map<Function, string>> = new Map()  // phase -> component class -> 'phase:Class'
+  private systems: SystemRegistry = new SystemRegistry()
   private lastTime: number = 0
   private targetFrameTime: number
   private isRunning: boolean = false
   private animationFrameId: number | null = null
   private accumulator: number = 0  // For frame rate smoothing
+  private interpolationAlpha: number = 1  // Leftover accumulator as a fraction of a step
   private maxFrameTime: number = 50  // Cap maximum frame time to prevent spiral of death
   
+  // Pause and time control
+  private paused: boolean = false
+  private timeScale: number = 1
+  private pendingStepFrames: number = 0  // Steps queued by stepFrames() while paused
+  
   // Performance monitoring
   private frameCount: number = 0
   private lastFPSUpdate: number = 0
@@ -33,22 +90,43 @@ export class Engine {
   constructor(config: EngineConfig) {
     this.config = createDGCEngineConfig(config)
     this.targetFrameTime = 1000 / this.config.targetFPS
+    this.errorPolicy = new ErrorPolicy(this.config.errorPolicy)
     
-    // Initialize Rapid.js with guaranteed canvas
-    this.rapid = new Rapid({
-      ...this.config.rapidConfig,
-      canvas: this.config.canvas
-    })
-    
-    // Initialize the GameMaker-style drawing system
-    this.drawingSystem = new DrawingSystem(this.rapid)
+    if (this.config.headless) {
+      // No renderer and no DOM input - drawing is a no-op and input is fed manually
+      this.rapid = null
+      this.drawingSystem = new HeadlessDrawingSystem()
+      this.inputManager = new InputManager(null)
+    } else {
+      if (!this.config.canvas) {
+        throw new Error('A canvas is required unless headless mode is enabled')
+      }
+      
+      // Initialize Rapid.js with guaranteed canvas
+      this.rapid = new Rapid({
+        ...this.config.rapidConfig,
+        canvas: this.config.canvas
+      })
+      
+      // Initialize the GameMaker-style drawing system
+      this.drawingSystem = new DrawingSystem(this.rapid)
+      this.inputManager = new InputManager(this.config.canvas)
+    }
     
     // Initialize managers
+    this.random = new Random(this.config.randomSeed)
     this.eventManager = new EventManager()
-    this.gameObjectManager = new GameObjectManager(this.eventManager, this.drawingSystem)
-    this.inputManager = new InputManager(this.config.canvas)
+    this.gameObjectManager = new GameObjectManager(this.eventManager, this.drawingSystem, this.random)
+    this.gameObjectManager.setCollisionCellSize(this.config.collisionCellSize)
+    this.gameObjectManager.setStepsPerSecond(this.config.targetFPS)
+    this.gameObjectManager.setErrorHandler((gameObject, phase, error) => this.handleObjectError(gameObject, phase, error))
+    this.inputRecorder = new InputRecorder(this.inputManager, this.random)
     
-    console.log(`🎮 DGCEngine initialized successfully with Rapid.js targeting ${this.config.targetFPS} FPS`)
+    if (this.config.headless) {
+      console.log(`🎮 DGCEngine initialized in headless mode targeting ${this.config.targetFPS} FPS`)
+    } else {
+      console.log(`🎮 DGCEngine initialized successfully with Rapid.js targeting ${this.config.targetFPS} FPS`)
+    }
   }
   
   /**
@@ -60,8 +138,15 @@ export class Engine {
     }
     
     this.isRunning = true
+    this.haltEvent = null
     this.lastTime = performance.now()
     this.lastFPSUpdate = this.lastTime // Initialize FPS timer
+    
+    // Headless engines have no requestAnimationFrame - the loop is driven with tick()
+    if (this.config.headless) {
+      return
+    }
+    
     this.gameLoop()
   }
   
@@ -74,8 +159,77 @@ export class Engine {
       cancelAnimationFrame(this.animationFrameId)
       this.animationFrameId = null
     }
-  // Dispose input listeners
-  this.inputManager.dispose()
+    // Dispose input listeners
+    this.inputManager.dispose()
+  }
+  
+  /**
+   * Pause the game world
+   * Drawing and input keep running, and objects with updateWhenPaused keep stepping
+   */
+  public pause(): void {
+    this.paused = true
+  }
+  
+  /**
+   * Resume the game world after pause()
+   */
+  public resume(): void {
+    this.paused = false
+    this.pendingStepFrames = 0
+  }
+  
+  /**
+   * Check if the game world is paused
+   */
+  public isPaused(): boolean {
+    return this.paused
+  }
+  
+  /**
+   * Set the time scale (1 = normal speed, 0.5 = half speed, 2 = double speed)
+   * Scales how many fixed steps run per second, so timers, motion and step logic
+   * all slow down or speed up together. Has no effect on tick()
+   */
+  public setTimeScale(scale: number): void {
+    if (!(scale >= 0)) {
+      throw new Error(`Invalid time scale: ${scale}`)
+    }
+    this.timeScale = scale
+  }
+  
+  /**
+   * Get the current time scale
+   */
+  public getTimeScale(): number {
+    return this.timeScale
+  }
+  
+  /**
+   * Advance the whole paused world by a number of steps, one per fixed step
+   * Used for frame-by-frame debugging. Queued steps are only consumed while paused
+   */
+  public stepFrames(frames: number = 1): void {
+    this.pendingStepFrames += Math.max(0, Math.floor(frames))
+  }
+  
+  /**
+   * Manually advance the engine by a number of fixed steps
+   * Each frame runs one step followed by the draw phase, independent of wall-clock time
+   * Used to drive headless engines (tests, CI, workers) but works in any mode
+   */
+  public tick(frames: number = 1): void {
+    for (let i = 0; i < frames && !this.haltEvent; i++) {
+      this.profiler.beginFrame()
+      const allActiveObjects = this.gameObjectManager.getAllActiveObjects()
+      this.runStep(allActiveObjects)
+      if (this.haltEvent) return
+      
+      // Manual ticks always draw the state of the step that just ran
+      this.interpolationAlpha = 1
+      this.runDraw(allActiveObjects)
+      this.endFrame(allActiveObjects)
+    }
   }
   
   /**
@@ -89,62 +243,221 @@ export class Engine {
     const currentTime = performance.now()
     const deltaTime = Math.min(currentTime - this.lastTime, this.maxFrameTime)
     
-    // Accumulate time for stable frame rate
-    this.accumulator += deltaTime
+    this.profiler.beginFrame()
+    
+    // Accumulate time for stable frame rate (scaled, so slow motion runs fewer steps per second)
+    // While paused, time runs unscaled so pause menus and stepFrames() stay responsive
+    this.accumulator += deltaTime * (this.paused ? 1 : this.timeScale)
     
     // Cache active objects array for performance (single allocation per frame)
     let allActiveObjects: GameObject[] | null = null
     
     // Process frames at consistent intervals
     while (this.accumulator >= this.targetFrameTime) {
-      // === GameMaker Event Order ===
-
       // Cache active objects array for performance (avoid multiple array allocations)
       if (!allActiveObjects) {
         allActiveObjects = this.gameObjectManager.getAllActiveObjects()
       }
 
-      // Input and Timer Events
-      this.processInputEvents()
-      this.processTimerEvents(this.targetFrameTime, allActiveObjects) // Use fixed timestep
-
-      // Step Phase (using cached active objects)
-      this.invokeVirtualForAll('onStepBegin', allActiveObjects)
-      this.invokeVirtualForAll('onStep', allActiveObjects)
-      // ToDo: calculate collisions and other physics here
-      this.invokeVirtualForAll('onStepEnd', allActiveObjects)
-      // ToDo: update animations and other visual effects here
+      this.runStep(allActiveObjects)
+      if (this.haltEvent) return
 
       // Subtract processed time
       this.accumulator -= this.targetFrameTime
     }
     
-    // Always render (interpolation could be added here for smoothness)
+    // Always render, interpolating by how far we are into the next fixed step
+    this.interpolationAlpha = this.config.interpolation ? this.accumulator / this.targetFrameTime : 1
+    
     // Draw Phase (reuse cached active objects from step phase, or get fresh if no steps occurred)
     if (!allActiveObjects) {
       allActiveObjects = this.gameObjectManager.getAllActiveObjects()
     }
+    this.runDraw(allActiveObjects)
+    this.endFrame(allActiveObjects)
+    
+    // Update FPS calculation
+    this.frameCount++
+    if (currentTime - this.lastFPSUpdate >= 1000) { // Update FPS every second
+      this.currentFPS = Math.round((this.frameCount * 1000) / (currentTime - this.lastFPSUpdate))
+      this.frameCount = 0
+      this.lastFPSUpdate = currentTime
+    }
+    
+    this.lastTime = currentTime
+    
+    if (this.isRunning) {
+      this.animationFrameId = requestAnimationFrame(this.gameLoop)
+    }
+  }
+  
+  /**
+   * Run a single fixed step
+   */
+  private runStep(allActiveObjects: GameObject[]): void {
+    // === GameMaker Event Order ===
+
+    // Remember where everything was at the start of the step (xPrevious/yPrevious)
+    // Frozen objects are included so they don't jitter from interpolation while paused
+    this.storePreviousPositions(allActiveObjects)
+    
+    const paused = this.paused && this.pendingStepFrames === 0
+    const stepObjects = this.getSteppingObjects(allActiveObjects)
+    const context = this.createSystemContext(stepObjects, paused)
+
+    // Input and Timer Events
+    this.systems.runBefore(EnginePhase.INPUT, context)
+    this.processInputEvents()
+    this.systems.runAfter(EnginePhase.INPUT, context)
+    
+    this.systems.runBefore(EnginePhase.TIMERS, context)
+    this.processTimerEvents(this.targetFrameTime, stepObjects) // Use fixed timestep
+    this.systems.runAfter(EnginePhase.TIMERS, context)
+
+    // Step Phase (using cached active objects)
+    this.systems.runBefore(EnginePhase.STEP_BEGIN, context)
+    this.invokeVirtualForAll('onStepBegin', stepObjects)
+    this.systems.runAfter(EnginePhase.STEP_BEGIN, context)
+    
+    // Alarms count down in steps and fire between begin step and step, like GameMaker
+    this.systems.runBefore(EnginePhase.ALARMS, context)
+    this.invokeVirtualForAll('updateAlarms', stepObjects)
+    this.systems.runAfter(EnginePhase.ALARMS, context)
+    
+    this.systems.runBefore(EnginePhase.STEP, context)
+    this.invokeVirtualForAll('onStep', stepObjects)
+    this.invokeVirtualForAll('stepState', stepObjects)
+    this.invokeVirtualForAll('updateCoroutines', stepObjects)
+    this.invokeVirtualForAll('updateMotion', stepObjects)
+    this.processCollisionEvents(stepObjects)
+    this.systems.runAfter(EnginePhase.STEP, context)
+    
+    this.systems.runBefore(EnginePhase.STEP_END, context)
+    this.invokeVirtualForAll('onStepEnd', stepObjects)
+    // State changes requested anywhere during the step take effect here
+    this.invokeVirtualForAll('applyStateTransition', stepObjects)
+    this.invokeVirtualForAll('updateAnimation', stepObjects)
+    this.systems.runAfter(EnginePhase.STEP_END, context)
+  }
+  
+  /**
+   * Get the objects that step this frame
+   * While paused only objects flagged updateWhenPaused step, unless stepFrames() queued a step
+   */
+  private getSteppingObjects(allActiveObjects: GameObject[]): GameObject[] {
+    if (!this.paused) {
+      return allActiveObjects
+    }
+    if (this.pendingStepFrames > 0) {
+      this.pendingStepFrames--
+      return allActiveObjects
+    }
+    return allActiveObjects.filter(obj => obj.updateWhenPaused)
+  }
+  
+  /**
+   * Run the draw phase
+   */
+  private runDraw(allActiveObjects: GameObject[]): void {
+    const context = this.createSystemContext(allActiveObjects, this.paused)
+    
+    this.gameObjectManager.setInterpolationAlpha(this.interpolationAlpha)
     this.startRender()
+    
+    this.systems.runBefore(EnginePhase.DRAW, context)
     this.invokeVirtualForAll('onDrawBegin', allActiveObjects)
     this.invokeVirtualForAll('onDraw', allActiveObjects)
+    this.invokeVirtualForAll('drawState', allActiveObjects)
     this.invokeVirtualForAll('onDrawEnd', allActiveObjects)
+    this.systems.runAfter(EnginePhase.DRAW, context)
+    
+    // GUI is drawn on top of the world
+    this.systems.runBefore(EnginePhase.DRAW_GUI, context)
+    this.invokeVirtualForAll('onDrawGUIBegin', allActiveObjects)
+    this.invokeVirtualForAll('onDrawGUI', allActiveObjects)
+    this.invokeVirtualForAll('onDrawGUIEnd', allActiveObjects)
+    this.systems.runAfter(EnginePhase.DRAW_GUI, context)
+    
+    // Debug overlays draw on top of everything
+    if (this.profiler.isOverlayVisible()) {
+      this.profiler.drawOverlay(this.drawingSystem)
+    }
     this.endRender()
+  }
+  
+  /**
+   * End-of-frame cleanup
+   */
+  private endFrame(allActiveObjects: GameObject[]): void {
+    const context = this.createSystemContext(allActiveObjects, this.paused)
     
-    // Cleanup
+    this.systems.runBefore(EnginePhase.FRAME_END, context)
     this.inputManager.endFrame()
     this.eventManager.clearObjectEventQueue() // Clear any orphaned events
     
-    // Update FPS calculation
-    this.frameCount++
-    if (currentTime - this.lastFPSUpdate >= 1000) { // Update FPS every second
-      this.currentFPS = Math.round((this.frameCount * 1000) / (currentTime - this.lastFPSUpdate))
-      this.frameCount = 0
-      this.lastFPSUpdate = currentTime
+    // Drop objects destroyed this frame, along with their failure history
+    for (const gameObject of this.gameObjectManager.cleanupDestroyedObjects()) {
+      this.errorPolicy.reset(gameObject)
     }
+    this.systems.runAfter(EnginePhase.FRAME_END, context)
     
-    this.lastTime = currentTime
+    this.profiler.endFrame()
+  }
+  
+  /**
+   * Build the context passed to engine system hooks
+   */
+  private createSystemContext(objects: GameObject[], paused: boolean): EngineSystemContext {
+    return {
+      engine: this,
+      objectManager: this.gameObjectManager,
+      objects,
+      paused
+    }
+  }
+  
+  // === Engine Systems ===
+  
+  /**
+   * Register an engine system (plugin) that hooks into the game loop phases
+   */
+  public registerSystem(system: EngineSystem): void {
+    this.systems.register(system)
+    system.onRegister?.(this)
+    console.log(`🔌 Engine system registered: ${system.name}`)
+  }
+  
+  /**
+   * Register a system that is part of the engine itself (named with BUILTIN_SYSTEM_PREFIX)
+   */
+  public registerBuiltinSystem(system: EngineSystem): void {
+    this.systems.register(system, true)
+    system.onRegister?.(this)
+  }
+  
+  /**
+   * Remove a registered engine system
+   */
+  public unregisterSystem(name: string): boolean {
+    const system = this.systems.unregister(name)
+    if (!system) return false
     
-    this.animationFrameId = requestAnimationFrame(this.gameLoop)
+    system.onUnregister?.(this)
+    return true
+  }
+  
+  /**
+   * Get a registered engine system by name
+   */
+  public getSystem<T extends EngineSystem = EngineSystem>(name: string): T | undefined {
+    return this.systems.get(name) as T | undefined
+  }
+  
+  /**
+   * Get all registered engine systems in run order
+   */
+  public getSystems(): readonly EngineSystem[] {
+    return this.systems.getAll()
   }
   
   /**
@@ -168,6 +481,41 @@ export class Engine {
     return this.inputManager
   }
   
+  /**
+   * Get the input recorder (record and replay input per fixed step)
+   */
+  public getInputRecorder(): InputRecorder {
+    return this.inputRecorder
+  }
+  
+  /**
+   * Get the profiler (opt-in per-phase, per-object-type timing)
+   */
+  public getProfiler(): Profiler {
+    return this.profiler
+  }
+  
+  /**
+   * Get the error policy applied to exceptions thrown by GameObject events
+   */
+  public getErrorPolicy(): ErrorPolicy {
+    return this.errorPolicy
+  }
+  
+  /**
+   * Get the error that halted the engine under the strict error policy (null if not halted)
+   */
+  public getHaltError(): ObjectErrorEvent | null {
+    return this.haltEvent
+  }
+  
+  /**
+   * Get the seeded random number service
+   */
+  public getRandom(): Random {
+    return this.random
+  }
+  
   /**
    * Get the event manager
    */
@@ -184,18 +532,33 @@ export class Engine {
   
   /**
    * Get the underlying Rapid.js renderer
+   * Throws in headless mode, where there is no renderer
    */
   public getRapidRenderer(): Rapid {
+    if (!this.rapid) {
+      throw new Error('Rapid renderer is not available in headless mode')
+    }
     return this.rapid
   }
   
   /**
    * Get the canvas element
+   * Throws in headless mode, where there is no canvas
    */
   public getCanvas(): HTMLCanvasElement {
+    if (!this.config.canvas) {
+      throw new Error('Canvas is not available in headless mode')
+    }
     return this.config.canvas
   }
   
+  /**
+   * Check if the engine is running headless (no canvas or renderer)
+   */
+  public isHeadless(): boolean {
+    return this.config.headless
+  }
+  
   /**
    * Get engine configuration
    */
@@ -210,6 +573,14 @@ export class Engine {
     return this.gameObjectManager
   }
 
+  /**
+   * Get the render interpolation alpha (0-1) - how far the current frame is between
+   * the last fixed step and the next one. Always 1 when interpolation is disabled
+   */
+  public getInterpolationAlpha(): number {
+    return this.interpolationAlpha
+  }
+
   /**
    * Get current FPS (frames per second)
    */
@@ -221,7 +592,7 @@ export class Engine {
 
   /**
    * Get the number of objects of a specific type
-   * @param objectType - Object type name or 'all' for all objects
+   * @param objectType - Object type name, { tag } or 'all' for all objects
    */
   public getObjectCount(objectType?: ObjectFilter): number {
     return this.gameObjectManager.getObjectCount(objectType)
@@ -229,7 +600,7 @@ export class Engine {
 
   /**
    * Check if any objects of a specific type exist
-   * @param objectType - Object type name or 'all' for all objects
+   * @param objectType - Object type name, { tag } or 'all' for all objects
    */
   public hasObjects(objectType?: ObjectFilter): boolean {
     return this.gameObjectManager.getObjectCount(objectType) > 0
@@ -237,7 +608,7 @@ export class Engine {
 
   /**
    * Destroy all objects of a specific type
-   * @param objectType - Object type name or 'all' for all objects
+   * @param objectType - Object type name, { tag } or 'all' for all objects
    */
   public destroyObjects(objectType: ObjectFilter): void {
     const objects = this.gameObjectManager.getObjectsByType(objectType)
@@ -246,10 +617,23 @@ export class Engine {
     }
   }
 
+  /**
+   * Store each object's position in xPrevious/yPrevious before the step runs
+   */
+  private storePreviousPositions(gameObjects: GameObject[]): void {
+    for (const gameObject of gameObjects) {
+      gameObject.xPrevious = gameObject.x
+      gameObject.yPrevious = gameObject.y
+    }
+  }
+
   /**
    * Process input events
    */
   private processInputEvents(): void {
+    // Capture this step's input, or replace it with recorded input during playback
+    this.inputRecorder.processStep()
+    
     // Input events are now processed via the InputManager and accessed directly by objects
     // Objects can check input state directly using this.inputManager in their virtual methods
     // No need to iterate through objects or queue events here
@@ -262,30 +646,162 @@ export class Engine {
    * Process timer/alarm events (GameMaker-style alarms)
    */
   private processTimerEvents(deltaTime: number, gameObjects?: GameObject[]): void {
-    const objects = gameObjects || this.gameObjectManager.getAllActiveObjects()
-    // Update timers for all game objects
-    for (const gameObject of objects) {
-      // Update any timers this object might have
-      gameObject.updateTimers(deltaTime)
+    // Timer callbacks get the same error isolation as every other event
+    this.invokeVirtualForAll('updateTimers', gameObjects, [deltaTime])
+  }
+
+  /**
+   * Detect collisions (spatial hash broadphase) and dispatch onCollision synchronously
+   * Each instance receives its collisions in instance order, like GameMaker
+   */
+  private processCollisionEvents(gameObjects: GameObject[]): void {
+    const collisions = this.gameObjectManager.findCollisions(gameObjects)
+    if (collisions.size === 0) return
+    
+    const profiling = this.profiler.isEnabled()
+    const phaseStart = profiling ? performance.now() : 0
+    
+    for (const gameObject of gameObjects) {
+      if (this.haltEvent) break
+      
+      const others = collisions.get(gameObject)
+      if (!others) continue
+      
+      for (const other of others) {
+        if (this.haltEvent) break
+        
+        // Earlier collision events may have destroyed or deactivated either object - only
+        // the instance's own removal ends its remaining collisions
+        if (!gameObject.active || !this.gameObjectManager.instanceExists(gameObject)) break
+        if (!other.active || !this.gameObjectManager.instanceExists(other)) continue
+        
+        const start = profiling ? performance.now() : 0
+        try {
+          this.gameObjectManager.dispatchCollision(gameObject, other)
+          this.errorPolicy.recordSuccess(gameObject, GameEvent.COLLISION)
+        } catch (error) {
+          this.handleObjectError(gameObject, GameEvent.COLLISION, error)
+        }
+        if (profiling) {
+          this.profiler.record(GameEvent.COLLISION, gameObject.objectType, performance.now() - start)
+        }
+      }
+    }
+    
+    if (profiling) {
+      this.profiler.recordPhase(GameEvent.COLLISION, performance.now() - phaseStart)
     }
   }
 
   /**
    * Process virtual event methods for all game objects
    */
-  private invokeVirtualForAll(methodName: keyof GameObject, cachedObjects?: GameObject[]): void {
+  private invokeVirtualForAll(methodName: keyof GameObject, cachedObjects?: GameObject[], args: unknown[] = []): void {
     const objects = cachedObjects || this.gameObjectManager.getAllActiveObjects()
     
+    // Only pay for timing when the profiler is on
+    const profiling = this.profiler.isEnabled()
+    const phase = VIRTUAL_EVENT_PHASES[methodName] ?? methodName
+    const phaseStart = profiling ? performance.now() : 0
+    
     for (const gameObject of objects) {
+      // A strict halt skips everything after the failing event
+      if (this.haltEvent) break
+      
+      // Skip objects deactivated earlier in this frame (cached arrays can be stale)
+      if (!gameObject.active) continue
+      
       const method = gameObject[methodName] as Function
       if (typeof method === 'function') {
+        const start = profiling ? performance.now() : 0
         try {
-          method.call(gameObject)
+          method.apply(gameObject, args)
+          this.errorPolicy.recordSuccess(gameObject, phase)
         } catch (error) {
-          console.error(`Error executing ${methodName} on ${gameObject.objectType}:`, error)
+          this.handleObjectError(gameObject, phase, error)
+        }
+        if (COMPONENT_HOOK_METHODS.has(methodName)) {
+          this.invokeComponentHooks(gameObject, methodName as ComponentHook, phase)
+        }
+        if (profiling) {
+          this.profiler.record(phase, gameObject.objectType, performance.now() - start)
         }
       }
     }
+    
+    if (profiling) {
+      this.profiler.recordPhase(phase, performance.now() - phaseStart)
+    }
+  }
+
+  /**
+   * Run a component hook on each enabled component of an object
+   * Every component gets its own try block, so neither a failing owner event nor
+   * another failing component skips it
+   */
+  private invokeComponentHooks(gameObject: GameObject, hook: ComponentHook, phase: string): void {
+    // Most objects have no components - don't allocate for them
+    if (gameObject.getComponentCount() === 0) return
+    
+    // getComponents() returns a copy, so hooks can add or remove components safely
+    for (const component of gameObject.getComponents(Component)) {
+      if (this.haltEvent || !gameObject.active) return
+      if (!component.enabled || !component.isAttached() || component.gameObject !== gameObject) continue
+      
+      const componentPhase = this.getComponentPhase(phase, component)
+      try {
+        component[hook]()
+        this.errorPolicy.recordSuccess(gameObject, componentPhase)
+      } catch (error) {
+        this.handleObjectError(gameObject, componentPhase, error)
+      }
+    }
+  }
+  
+  /**
+   * Get the error policy phase of a component hook, built once per phase and component class
+   */
+  private getComponentPhase(phase: string, component: Component): string {
+    let phases = this.componentPhases.get(phase)
+    if (!phases) {
+      phases = new Map()
+      this.componentPhases.set(phase, phases)
+    }
+    
+    let componentPhase = phases.get(component.constructor)
+    if (componentPhase === undefined) {
+      componentPhase = `${phase}:${component.constructor.name}`
+      phases.set(component.constructor, componentPhase)
+    }
+    return componentPhase
+  }
+  
+  /**
+   * Apply the error policy to an exception thrown by a GameObject event
+   * Emits the global 'object_error' event, then halts (strict mode) or deactivates
+   * the instance once it has failed too many times in a row
+   * A strict halt stops the loop and emits 'engine_halted' instead of rethrowing,
+   * so the error never escapes requestAnimationFrame
+   */
+  private handleObjectError(gameObject: GameObject, phase: string, error: unknown): void {
+    const consecutiveErrors = this.errorPolicy.recordError(gameObject, phase, error)
+    
+    const eventData: ObjectErrorEvent = { object: gameObject, phase, error, consecutiveErrors }
+    void this.eventManager.emitGlobalEvent('object_error', eventData)
+    
+    if (this.errorPolicy.isStrict()) {
+      console.error(`🛑 Strict error policy: halting engine after error in ${phase} on ${gameObject.objectType} #${gameObject.id}`)
+      this.haltEvent = eventData
+      this.stop()
+      void this.eventManager.emitGlobalEvent('engine_halted', eventData)
+      return
+    }
+    
+    if (this.errorPolicy.shouldDeactivate(consecutiveErrors)) {
+      console.warn(`⚠️ Deactivating ${gameObject.objectType} #${gameObject.id} after ${consecutiveErrors} consecutive errors`)
+      this.errorPolicy.reset(gameObject)
+      gameObject.active = false
+    }
   }
 
   // === Render Control Methods ===
@@ -294,7 +810,7 @@ export class Engine {
    * Start Render - Initialize rendering phase
    */
   private startRender(): void {
-    this.rapid.startRender()
+    this.rapid?.startRender()
     this.drawingSystem.clearFrame()
   }
 
@@ -302,6 +818,6 @@ export class Engine {
    * End Render - Finalize rendering phase
    */
   private endRender(): void {
-    this.rapid.endRender()
+    this.rapid?.endRender()
   }
 }
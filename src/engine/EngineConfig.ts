@@ -1,5 +1,6 @@
 import { Color } from 'rapid-render'
 import type { IRapidOptions } from 'rapid-render'
+import type { ErrorPolicyConfig } from './ErrorPolicy.ts'
 
 /**
  * Configuration for the DGC game engine with Rapid.js
@@ -19,6 +20,36 @@ export interface EngineConfig {
    * Rapid.js renderer settings
    */
   rapidConfig?: Partial<IRapidOptions>
+  
+  /**
+   * Run without a canvas or Rapid.js renderer (Node, web workers, unit tests)
+   * Drawing becomes a no-op, input is detached from the DOM and the loop is
+   * driven manually with engine.tick() instead of requestAnimationFrame
+   */
+  headless?: boolean
+  
+  /**
+   * Draw instances between their previous and current step positions using the
+   * leftover accumulator time, so motion stays smooth when the display refresh
+   * rate differs from targetFPS
+   */
+  interpolation?: boolean
+  
+  /**
+   * Seed for the engine's Random service (a random seed is used when omitted)
+   */
+  randomSeed?: number
+  
+  /**
+   * How exceptions thrown by GameObject events are handled
+   * (log throttling, auto-deactivation, strict mode)
+   */
+  errorPolicy?: ErrorPolicyConfig
+  
+  /**
+   * Cell size of the spatial hash used by the collision broadphase
+   */
+  collisionCellSize?: number
 }
 
 /**
@@ -26,6 +57,10 @@ export interface EngineConfig {
  */
 export const DEFAULT_CONFIG: Partial<EngineConfig> = {
   targetFPS: 60,
+  headless: false,
+  interpolation: true,
+  errorPolicy: {},
+  collisionCellSize: 64,
   rapidConfig: {
     backgroundColor: Color.fromHex("333333"),
     antialias: true
@@ -0,0 +1,137 @@
+import type { Engine } from './Engine.ts'
+import type { GameObject } from './GameObject'
+import type { GameObjectManager } from './GameObjectManager'
+
+/**
+ * Game loop phases that systems can hook into, in the order they run
+ */
+export const EnginePhase = {
+  INPUT: 'input',
+  TIMERS: 'timers',
+  STEP_BEGIN: 'step_begin',
+  ALARMS: 'alarms',
+  STEP: 'step',
+  STEP_END: 'step_end',
+  DRAW: 'draw',
+  DRAW_GUI: 'draw_gui',
+  FRAME_END: 'frame_end'
+} as const
+
+export type EnginePhase = typeof EnginePhase[keyof typeof EnginePhase]
+
+/**
+ * Name prefix reserved for systems the engine registers itself, so they can't collide with game systems
+ */
+export const BUILTIN_SYSTEM_PREFIX = 'dgc:'
+
+/**
+ * What a system gets access to when one of its hooks runs
+ */
+export interface EngineSystemContext {
+  engine: Engine
+  objectManager: GameObjectManager
+  /** Objects taking part in this phase (only updateWhenPaused objects while the world is frozen) */
+  objects: GameObject[]
+  /** True when Engine.pause() has frozen the world for this step */
+  paused: boolean
+}
+
+/**
+ * Engine-wide feature plugged into the game loop (physics, audio, debug tooling, ...)
+ * Every hook is optional; systems run in ascending priority order
+ */
+export interface EngineSystem {
+  /** Unique system name */
+  readonly name: string
+  /** Lower priorities run first (default 0) */
+  readonly priority?: number
+  /** Called when the system is registered with an engine */
+  onRegister?(engine: Engine): void
+  /** Called when the system is removed from an engine */
+  onUnregister?(engine: Engine): void
+  /** Called before a phase runs */
+  beforePhase?(phase: EnginePhase, context: EngineSystemContext): void
+  /** Called after a phase runs */
+  afterPhase?(phase: EnginePhase, context: EngineSystemContext): void
+}
+
+/**
+ * Ordered collection of registered systems
+ */
+export class SystemRegistry {
+  private systems: EngineSystem[] = []
+
+  /**
+   * Add a system, keeping the list sorted by priority (stable for equal priorities)
+   * Only built-in systems may use (and must use) the reserved name prefix
+   */
+  public register(system: EngineSystem, builtin: boolean = false): void {
+    if (system.name.startsWith(BUILTIN_SYSTEM_PREFIX) !== builtin) {
+      throw new Error(builtin
+        ? `Built-in engine system '${system.name}' must be named with the '${BUILTIN_SYSTEM_PREFIX}' prefix`
+        : `Engine system name '${system.name}' uses the reserved '${BUILTIN_SYSTEM_PREFIX}' prefix`)
+    }
+    if (this.systems.some(existing => existing.name === system.name)) {
+      throw new Error(`Engine system '${system.name}' is already registered`)
+    }
+
+    const priority = system.priority ?? 0
+    const index = this.systems.findIndex(existing => (existing.priority ?? 0) > priority)
+    if (index === -1) {
+      this.systems.push(system)
+    } else {
+      this.systems.splice(index, 0, system)
+    }
+  }
+
+  /**
+   * Remove a system by name, returning it if it was registered
+   */
+  public unregister(name: string): EngineSystem | undefined {
+    const index = this.systems.findIndex(system => system.name === name)
+    if (index === -1) return undefined
+    return this.systems.splice(index, 1)[0]
+  }
+
+  /**
+   * Get a system by name
+   */
+  public get(name: string): EngineSystem | undefined {
+    return this.systems.find(system => system.name === name)
+  }
+
+  /**
+   * Get all systems in run order
+   */
+  public getAll(): readonly EngineSystem[] {
+    return this.systems
+  }
+
+  /**
+   * Run every system's beforePhase hook
+   */
+  public runBefore(phase: EnginePhase, context: EngineSystemContext): void {
+    for (const system of this.systems) {
+      if (!system.beforePhase) continue
+      try {
+        system.beforePhase(phase, context)
+      } catch (error) {
+        console.error(`Error in engine system '${system.name}' before ${phase}:`, error)
+      }
+    }
+  }
+
+  /**
+   * Run every system's afterPhase hook
+   */
+  public runAfter(phase: EnginePhase, context: EngineSystemContext): void {
+    for (const system of this.systems) {
+      if (!system.afterPhase) continue
+      try {
+        system.afterPhase(phase, context)
+      } catch (error) {
+        console.error(`Error in engine system '${system.name}' after ${phase}:`, error)
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import type { GameObject } from './GameObject'
+
+/**
+ * How the engine reacts to exceptions thrown by GameObject events
+ */
+export interface ErrorPolicyConfig {
+  /** Minimum milliseconds between logged errors from the same object and phase */
+  throttleMs?: number
+  /** Deactivate an instance after this many consecutive failed events (0 = never) */
+  maxConsecutiveErrors?: number
+  /** Halt the engine on the first error */
+  strict?: boolean
+}
+
+/**
+ * Data passed to global 'object_error' listeners
+ */
+export interface ObjectErrorEvent {
+  object: GameObject
+  phase: string
+  error: unknown
+  consecutiveErrors: number
+}
+
+// When an instance's phase last logged an error, and what was suppressed since
+interface LogState {
+  time: number
+  suppressed: number
+  lastMessage: string
+}
+
+/**
+ * Tracks failing GameObjects so a broken instance can't flood the console at 60Hz
+ * Repeated errors are throttled, and consecutive failures are counted per instance
+ * and phase so the engine can deactivate an instance whose event keeps failing
+ */
+export class ErrorPolicy {
+  private config: Required<ErrorPolicyConfig>
+  private consecutiveErrors: Map<number, Map<string, number>> = new Map()
+  // Per instance id, then per phase - the message isn't part of the key, so errors
+  // carrying changing data (coordinates, frame counts) are throttled too
+  private logStates: Map<number, Map<string, LogState>> = new Map()
+
+  constructor(config: ErrorPolicyConfig = {}) {
+    this.config = {
+      throttleMs: 1000,
+      maxConsecutiveErrors: 0,
+      strict: false,
+      ...config
+    }
+  }
+
+  /**
+   * Update part of the policy at runtime
+   */
+  public configure(config: ErrorPolicyConfig): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): Readonly<Required<ErrorPolicyConfig>> {
+    return this.config
+  }
+
+  public isStrict(): boolean {
+    return this.config.strict
+  }
+
+  /**
+   * Record a successful event call, resetting the failure streak for that phase
+   */
+  public recordSuccess(gameObject: GameObject, phase: string): void {
+    if (this.consecutiveErrors.size === 0) return
+
+    const phases = this.consecutiveErrors.get(gameObject.id)
+    if (phases && phases.delete(phase) && phases.size === 0) {
+      this.consecutiveErrors.delete(gameObject.id)
+    }
+  }
+
+  /**
+   * Record a failed event call, logging it unless throttled
+   * Returns how many times in a row this phase has failed for the instance
+   */
+  public recordError(gameObject: GameObject, phase: string, error: unknown): number {
+    let phases = this.consecutiveErrors.get(gameObject.id)
+    if (!phases) {
+      phases = new Map()
+      this.consecutiveErrors.set(gameObject.id, phases)
+    }
+    const consecutive = (phases.get(phase) ?? 0) + 1
+    phases.set(phase, consecutive)
+
+    let logStates = this.logStates.get(gameObject.id)
+    if (!logStates) {
+      logStates = new Map()
+      this.logStates.set(gameObject.id, logStates)
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    const now = performance.now()
+    const logged = logStates.get(phase)
+
+    if (!logged || now - logged.time >= this.config.throttleMs) {
+      let suppressed = ''
+      if (logged && logged.suppressed > 0) {
+        suppressed = logged.lastMessage === message
+          ? ` (${logged.suppressed} repeats suppressed)`
+          : ` (${logged.suppressed} errors suppressed, last: ${logged.lastMessage})`
+      }
+      console.error(`Error executing ${phase} on ${gameObject.objectType} #${gameObject.id}${suppressed}:`, error)
+      logStates.set(phase, { time: now, suppressed: 0, lastMessage: message })
+    } else {
+      logged.suppressed++
+      logged.lastMessage = message
+    }
+
+    return consecutive
+  }
+
+  /**
+   * Get how many times in a row a phase has failed for an instance
+   */
+  public getConsecutiveErrors(gameObject: GameObject, phase: string): number {
+    return this.consecutiveErrors.get(gameObject.id)?.get(phase) ?? 0
+  }
+
+  /**
+   * Check if an instance has failed often enough to be deactivated
+   */
+  public shouldDeactivate(consecutiveErrors: number): boolean {
+    return this.config.maxConsecutiveErrors > 0 && consecutiveErrors >= this.config.maxConsecutiveErrors
+  }
+
+  /**
+   * Forget an instance's failure history (after deactivating or destroying it)
+   */
+  public reset(gameObject: GameObject): void {
+    this.consecutiveErrors.delete(gameObject.id)
+    this.logStates.delete(gameObject.id)
+  }
+}
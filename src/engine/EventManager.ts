@@ -25,6 +25,8 @@ export class EventManager {
     this.globalEventListeners.set('game_end', [])
     this.globalEventListeners.set('room_start', [])
     this.globalEventListeners.set('room_end', [])
+    this.globalEventListeners.set('object_error', [])
+    this.globalEventListeners.set('engine_halted', [])
   }
   
   /**
@@ -1,3 +1,14 @@
+import type { Random } from './Random.ts'
+import { Coroutine, type CoroutineGenerator } from './Coroutine.ts'
+import { Animator, type AnimationClip, type AnimationClipConfig, type AnimatorTarget } from './Animator.ts'
+import { copyValue } from './StateCopy.ts'
+import type { Component, ComponentHook, ComponentType } from './Component.ts'
+import { StateMachine, type State } from './StateMachine.ts'
+import type { Bounds } from './SpatialHash.ts'
+import type { Sprite } from './Sprite.ts'
+import { VariableType, getVariableType, inferVariableType, resolveDefault, matchesVariableType, validateVariable, type VariableDefinition, type VariableChangeListener, type PropertyInfo } from './VariableSchema.ts'
+import { CollisionMask, RectangleMask, RotatedRectangleMask, type CollisionShape, shapesOverlap, rectangleShape, circleShape, lineShape } from './CollisionMask.ts'
+
 // Forward declarations to avoid circular imports
 export interface EventManager {
   queueObjectEvent(gameObject: GameObject, event: GameEvent, eventData?: any): void
@@ -5,8 +16,21 @@ export interface EventManager {
 
 // Forward declaration for GameObjectManager to avoid circular imports
 export interface IGameObjectManager {
+  addExistingObject(gameObject: GameObject, runCreate?: boolean): void
   destroyObject(objectId: number): void
+  updateObjectTag(gameObject: GameObject, tag: string, added: boolean): void
+  updateObjectComponent(gameObject: GameObject, component: Component, added: boolean): void
+  reportObjectError(gameObject: GameObject, phase: string, error: unknown): void
+  getObject(objectId: number): GameObject | undefined
   getObjectsByType(objectType: string): GameObject[]
+  getInterpolationAlpha(): number
+  getRandom(): Random
+  getStepsPerSecond(): number
+  with(target: string | TagFilter | GameObject, fn: (instance: GameObject) => void | boolean): void
+  collisionShape(shape: CollisionShape, objectType?: string | TagFilter, precise?: boolean, exclude?: GameObject | null): GameObject | null
+  collisionShapeList(shape: CollisionShape, objectType?: string | TagFilter, precise?: boolean, exclude?: GameObject | null): GameObject[]
+  collisionPoint(x: number, y: number, objectType?: string | TagFilter, precise?: boolean, exclude?: GameObject | null): GameObject | null
+  collisionPointList(x: number, y: number, objectType?: string | TagFilter, precise?: boolean, exclude?: GameObject | null): GameObject[]
 }
 
 // Forward declaration for drawing system
@@ -15,6 +39,23 @@ export interface IDrawingSystem {
   drawRectangle(x1: number, y1: number, x2: number, y2: number, filled?: boolean, color?: number, alpha?: number): void
 }
 
+/**
+ * Matches every instance with a tag - accepted wherever an object type is, e.g. { tag: 'hostile' }
+ */
+export interface TagFilter {
+  tag: string
+}
+
+/**
+ * Copies of an instance's animator, state machine and components, used to rewind a pooled instance
+ */
+export interface HelperSnapshot<T extends GameObject = GameObject> {
+  animator: Animator | null
+  stateMachine: StateMachine<T> | null
+  // Each attached component with a copy of its fields at snapshot time
+  components: { component: Component; initial: Component }[]
+}
+
 /**
  * GameMaker-style event types
  */
@@ -40,7 +81,9 @@ export const GameEvent = {
   KEY_PRESSED: 'key_pressed',
   KEY_RELEASED: 'key_released',
   ANIMATION_END: 'animation_end',
+  ANIMATION_EVENT: 'animation_event',
   TIMER: 'timer',
+  ALARM: 'alarm',
   CUSTOM: 'custom'
 } as const
 
@@ -62,11 +105,80 @@ export interface GameObjectProperties {
   depth?: number
   solid?: boolean
   persistent?: boolean
+  updateWhenPaused?: boolean
+  imageLoop?: boolean
+  speed?: number
+  direction?: number
+  hspeed?: number
+  vspeed?: number
+  friction?: number
+  gravity?: number
+  gravityDirection?: number
   sprite?: any // Sprite reference instead of string
-  maskSprite?: string
+  maskSprite?: Sprite
+  collisionMask?: CollisionMask
+  tags?: string[]
   [key: string]: any
 }
 
+// Public data members of GameObject (methods excluded)
+type BuiltinPropertyName = { [K in keyof GameObject]: GameObject[K] extends Function ? never : K }[keyof GameObject]
+
+// VariableType of a field's TypeScript type
+type VariableTypeOf<T> =
+  T extends number ? typeof VariableType.NUMBER :
+  T extends string ? typeof VariableType.STRING :
+  T extends boolean ? typeof VariableType.BOOLEAN :
+  typeof VariableType.OBJECT
+
+/**
+ * Built-in fields reachable by name - getProperty('x'), GameMaker-style string access and reflection
+ * Keyed and typed by the public fields themselves, so a field that is added, removed or
+ * retyped without updating this table fails to compile
+ */
+const BUILTIN_PROPERTIES: { [K in BuiltinPropertyName]: { type: VariableTypeOf<GameObject[K]>; readOnly?: boolean } } = {
+  id: { type: VariableType.NUMBER, readOnly: true },
+  objectType: { type: VariableType.STRING, readOnly: true },
+  x: { type: VariableType.NUMBER },
+  y: { type: VariableType.NUMBER },
+  xPrevious: { type: VariableType.NUMBER },
+  yPrevious: { type: VariableType.NUMBER },
+  visible: { type: VariableType.BOOLEAN },
+  active: { type: VariableType.BOOLEAN },
+  depth: { type: VariableType.NUMBER },
+  solid: { type: VariableType.BOOLEAN },
+  persistent: { type: VariableType.BOOLEAN },
+  updateWhenPaused: { type: VariableType.BOOLEAN },
+  interpolate: { type: VariableType.BOOLEAN },
+  speed: { type: VariableType.NUMBER },
+  direction: { type: VariableType.NUMBER },
+  hspeed: { type: VariableType.NUMBER },
+  vspeed: { type: VariableType.NUMBER },
+  friction: { type: VariableType.NUMBER },
+  gravity: { type: VariableType.NUMBER },
+  gravityDirection: { type: VariableType.NUMBER },
+  sprite: { type: VariableType.OBJECT },
+  imageIndex: { type: VariableType.NUMBER },
+  imageSpeed: { type: VariableType.NUMBER },
+  imageLoop: { type: VariableType.BOOLEAN },
+  imageAngle: { type: VariableType.NUMBER },
+  imageXScale: { type: VariableType.NUMBER },
+  imageYScale: { type: VariableType.NUMBER },
+  imageAlpha: { type: VariableType.NUMBER },
+  imageBlend: { type: VariableType.NUMBER },
+  maskSprite: { type: VariableType.OBJECT },
+  collisionMask: { type: VariableType.OBJECT },
+  boundingBox: { type: VariableType.OBJECT },
+  alarm: { type: VariableType.OBJECT, readOnly: true }
+}
+
+/**
+ * Look up a built-in property by name (inherited Object members like 'toString' aren't properties)
+ */
+function getBuiltinProperty(name: string): { type: VariableType; readOnly?: boolean } | undefined {
+  return Object.hasOwn(BUILTIN_PROPERTIES, name) ? BUILTIN_PROPERTIES[name as BuiltinPropertyName] : undefined
+}
+
 /**
  * Base GameObject class - the foundation of the game engine
  * Similar to GameMaker's object system with event-driven programming
@@ -77,10 +189,22 @@ export class GameObject {
   // Object-level variables (shared across ALL instances of this object type)
   private static objectVariables: Map<string, Map<string, any>> = new Map()
   
+  // Object type hierarchy (child type -> parent type), like GameMaker object parents
+  private static objectParents: Map<string, string> = new Map()
+  
+  // Every descendant type of each parent type, rebuilt when the hierarchy changes
+  private static descendantTypes: Map<string, string[]> = new Map()
+  
+  // Declared instance variables per object type (inherited by child types)
+  private static variableSchemas: Map<string, Map<string, VariableDefinition>> = new Map()
+  
+  // Own fields of a plain GameObject - any other own field was added by a subclass
+  private static baseFields: ReadonlySet<string> | null = null
+  
   // Reference to the global GameObjectManager for instance lookups
   private static globalGameObjectManager: IGameObjectManager | null = null
   
-  public readonly id: number
+  private _id: number  // Read through id; replaced by clone() and renewId()
   public readonly objectType: string
   
   // Core properties
@@ -94,10 +218,27 @@ export class GameObject {
   public solid: boolean = false
   public persistent: boolean = false
   
+  // Keep stepping while the engine is paused (pause menus, debug overlays)
+  public updateWhenPaused: boolean = false
+  
+  // Draw between xPrevious/yPrevious and x/y using the engine's interpolation alpha
+  public interpolate: boolean = true
+  
+  // Motion (GameMaker built-ins) - applied by the engine after the step event
+  // Directions are in degrees, counterclockwise with 0 = right and 90 = up
+  private _speed: number = 0
+  private _direction: number = 0
+  private _hspeed: number = 0
+  private _vspeed: number = 0
+  public friction: number = 0
+  public gravity: number = 0
+  public gravityDirection: number = 270
+  
   // Visual properties
   public sprite: any | null = null // Sprite reference instead of string
   public imageIndex: number = 0
-  public imageSpeed: number = 1
+  public imageSpeed: number = 1 // Multiplier of the sprite's animationSpeed
+  public imageLoop: boolean = true // When false, the animation stops on its last frame
   public imageAngle: number = 0
   public imageXScale: number = 1
   public imageYScale: number = 1
@@ -105,10 +246,14 @@ export class GameObject {
   public imageBlend: number = 0xFFFFFF
   
   // Collision properties
-  public maskSprite: string | null = null
+  // Mask used for collisions: collisionMask, else maskSprite's frame, else boundingBox, else sprite's frame
+  public collisionMask: CollisionMask | null = null
+  public maskSprite: Sprite | null = null
   public boundingBox: { left: number; top: number; right: number; bottom: number } = {
     left: 0, top: 0, right: 0, bottom: 0
   }
+  // Mask built from boundingBox, rebuilt only when the box changes
+  private boundingBoxMask: RectangleMask | null = null
   
   // Event scripts
   private eventScripts: Map<GameEvent, EventScript[]> = new Map()
@@ -116,13 +261,52 @@ export class GameObject {
   // Custom variables (user-defined properties)
   private customVariables: Map<string, any> = new Map()
   
+  // Runtime tags ("hostile", "interactable"), indexed by the manager
+  private tags: Set<string> = new Set()
+  
+  // Instance variable change listeners, by variable name
+  private variableListeners: Map<string, VariableChangeListener[]> = new Map()
+  
+  // GameMaker alarms - steps remaining, -1 when off (alarm[0]..alarm[11])
+  public readonly alarm: number[] = new Array(12).fill(-1)
+  
   // Timers
   private timers: Map<string, { duration: number; elapsed: number; callback?: () => void }> = new Map()
   
+  // Running coroutines (advanced once per fixed step)
+  private coroutines: Coroutine[] = []
+  
+  // Named animation clips (created on first use)
+  private animator: Animator | null = null
+  
+  // Attached components, in the order their hooks run
+  private components: Component[] = []
+  
+  // Finite state machine (created on first use)
+  private stateMachine: StateMachine<this> | null = null
+  
   // References
   private gameObjectManager: IGameObjectManager | null = null
   private drawingSystem: IDrawingSystem | null = null
   
+  /**
+   * Unique instance id
+   */
+  public get id(): number {
+    return this._id
+  }
+  
+  /**
+   * Give this instance a new id (called by ObjectPool when it reuses a released instance)
+   * Only for instances that aren't registered with a manager
+   */
+  public renewId(): void {
+    if (this.gameObjectManager?.getObject(this._id) === this) {
+      throw new Error(`Cannot renew the id of registered ${this.objectType} ${this._id}`)
+    }
+    this._id = GameObject.nextId++
+  }
+  
   // Active property with state management
   public get active(): boolean {
     return this._active
@@ -138,12 +322,70 @@ export class GameObject {
     }
   }
   
+  /**
+   * Movement per step along direction - kept in sync with hspeed/vspeed
+   */
+  public get speed(): number {
+    return this._speed
+  }
+  
+  public set speed(value: number) {
+    this._speed = value
+    this.updateMotionComponents()
+  }
+  
+  /**
+   * Direction of motion in degrees (0 = right, 90 = up)
+   */
+  public get direction(): number {
+    return this._direction
+  }
+  
+  public set direction(value: number) {
+    this._direction = ((value % 360) + 360) % 360
+    this.updateMotionComponents()
+  }
+  
+  /**
+   * Horizontal movement per step - kept in sync with speed/direction
+   */
+  public get hspeed(): number {
+    return this._hspeed
+  }
+  
+  public set hspeed(value: number) {
+    this._hspeed = value
+    this.updateMotionPolar()
+  }
+  
+  /**
+   * Vertical movement per step (positive = down) - kept in sync with speed/direction
+   */
+  public get vspeed(): number {
+    return this._vspeed
+  }
+  
+  public set vspeed(value: number) {
+    this._vspeed = value
+    this.updateMotionPolar()
+  }
+  
   constructor(objectType: string, properties: GameObjectProperties = {}) {
-    this.id = GameObject.nextId++
+    this._id = GameObject.nextId++
     this.objectType = objectType
+    // Subclass fields are only defined after this constructor returns
+    GameObject.baseFields ??= new Set(Object.keys(this))
     
     // Apply properties
-    Object.assign(this, properties)
+    const { tags, ...fields } = properties
+    Object.assign(this, fields)
+    if (tags) {
+      this.addTag(...tags)
+    }
+    
+    // Start with no movement history
+    this.xPrevious = properties.xPrevious ?? this.x
+    this.yPrevious = properties.yPrevious ?? this.y
     
     // Initialize event script maps
     Object.values(GameEvent).forEach(event => {
@@ -181,6 +423,141 @@ export class GameObject {
     return objectVars ? objectVars.has(name) : false
   }
   
+  /**
+   * Register objectType as a child of parentType (null removes the parent)
+   * Queries against the parent type then include instances of the child
+   */
+  public static setObjectParent(objectType: string, parentType: string | null): void {
+    if (parentType === null) {
+      GameObject.objectParents.delete(objectType)
+    } else {
+      if (parentType === objectType || GameObject.isAncestor(parentType, objectType)) {
+        throw new Error(`Cannot make '${parentType}' the parent of '${objectType}': circular object hierarchy`)
+      }
+      GameObject.objectParents.set(objectType, parentType)
+    }
+    GameObject.rebuildDescendantTypes()
+  }
+  
+  private static rebuildDescendantTypes(): void {
+    GameObject.descendantTypes.clear()
+    for (const childType of GameObject.objectParents.keys()) {
+      let parent = GameObject.objectParents.get(childType)
+      while (parent !== undefined) {
+        if (!GameObject.descendantTypes.has(parent)) {
+          GameObject.descendantTypes.set(parent, [])
+        }
+        GameObject.descendantTypes.get(parent)!.push(childType)
+        parent = GameObject.objectParents.get(parent)
+      }
+    }
+  }
+  
+  /**
+   * Get the registered parent type of an object type
+   */
+  public static getObjectParent(objectType: string): string | null {
+    return GameObject.objectParents.get(objectType) ?? null
+  }
+  
+  /**
+   * Check if ancestorType is a parent, grandparent, ... of objectType - GameMaker's object_is_ancestor()
+   */
+  public static isAncestor(objectType: string, ancestorType: string): boolean {
+    let parent = GameObject.objectParents.get(objectType)
+    while (parent !== undefined) {
+      if (parent === ancestorType) return true
+      parent = GameObject.objectParents.get(parent)
+    }
+    return false
+  }
+  
+  /**
+   * Get every type that has objectType as an ancestor
+   */
+  public static getDescendantTypes(objectType: string): readonly string[] {
+    return GameObject.descendantTypes.get(objectType) ?? []
+  }
+  
+  /**
+   * Get objectType followed by its parent, grandparent, ...
+   */
+  public static getTypeChain(objectType: string): string[] {
+    const chain = [objectType]
+    let parent = GameObject.objectParents.get(objectType)
+    while (parent !== undefined) {
+      chain.push(parent)
+      parent = GameObject.objectParents.get(parent)
+    }
+    return chain
+  }
+  
+  /**
+   * Declare typed instance variables for an object type (and its child types)
+   * Redeclaring a variable replaces its definition
+   *
+   * GameObject.defineVariables('Enemy', { hp: { default: 100, min: 0 }, target: { type: VariableType.OBJECT, default: null } })
+   */
+  public static defineVariables(objectType: string, definitions: Record<string, VariableDefinition>): void {
+    if (!GameObject.variableSchemas.has(objectType)) {
+      GameObject.variableSchemas.set(objectType, new Map())
+    }
+    
+    const schema = GameObject.variableSchemas.get(objectType)!
+    for (const [name, definition] of Object.entries(definitions)) {
+      if (getBuiltinProperty(name)) {
+        throw new Error(`Cannot declare variable '${name}' on ${objectType}: it is a built-in property`)
+      }
+      if (definition.default !== undefined && typeof definition.default !== 'function') {
+        validateVariable(objectType, name, definition, definition.default)
+      }
+      schema.set(name, definition)
+    }
+  }
+  
+  /**
+   * Get the definition of a declared variable, looking through parent types
+   */
+  public static getVariableDefinition(objectType: string, name: string): VariableDefinition | undefined {
+    for (const type of GameObject.getTypeChain(objectType)) {
+      const definition = GameObject.variableSchemas.get(type)?.get(name)
+      if (definition) return definition
+    }
+    return undefined
+  }
+  
+  /**
+   * List the built-in properties and declared variables of an object type
+   * Subclass fields need an instance - see the getPropertyInfo() instance method
+   */
+  public static getPropertyInfo(objectType: string): PropertyInfo[] {
+    const properties: PropertyInfo[] = Object.entries(BUILTIN_PROPERTIES).map(([name, property]) => ({
+      name,
+      type: property.type,
+      builtin: true,
+      readOnly: property.readOnly ?? false,
+      declared: true
+    }))
+    
+    // Parent variables first; child types can redeclare them
+    const seen = new Set<string>()
+    for (const type of GameObject.getTypeChain(objectType).reverse()) {
+      for (const name of GameObject.variableSchemas.get(type)?.keys() ?? []) {
+        seen.add(name)
+      }
+    }
+    for (const name of seen) {
+      properties.push({
+        name,
+        type: getVariableType(GameObject.getVariableDefinition(objectType, name)!),
+        builtin: false,
+        readOnly: false,
+        declared: true
+      })
+    }
+    return properties
+  }
+  
   /**
    * Set the global GameObjectManager reference for instance lookups
    */
@@ -203,26 +580,7 @@ export class GameObject {
       throw new Error(`Unable to find instance for object type '${objectType}'`)
     }
     
-    const firstInstance = instances[0]
-    
-    // Check if it's a built-in property
-    if (propertyName === 'x') return firstInstance.x
-    if (propertyName === 'y') return firstInstance.y
-    if (propertyName === 'visible') return firstInstance.visible
-    if (propertyName === 'active') return firstInstance.active
-    if (propertyName === 'depth') return firstInstance.depth
-    if (propertyName === 'solid') return firstInstance.solid
-    if (propertyName === 'persistent') return firstInstance.persistent
-    if (propertyName === 'sprite') return firstInstance.sprite
-    if (propertyName === 'imageIndex') return firstInstance.imageIndex
-    if (propertyName === 'imageSpeed') return firstInstance.imageSpeed
-    if (propertyName === 'imageAngle') return firstInstance.imageAngle
-    if (propertyName === 'imageXScale') return firstInstance.imageXScale
-    if (propertyName === 'imageYScale') return firstInstance.imageYScale
-    if (propertyName === 'imageAlpha') return firstInstance.imageAlpha
-    
-    // Check instance variables
-    return firstInstance.getVariable(propertyName)
+    return instances[0].getProperty(propertyName)
   }
   
   /**
@@ -240,26 +598,44 @@ export class GameObject {
       throw new Error(`Unable to find instance for object type '${objectType}'`)
     }
     
-    const firstInstance = instances[0]
-    
-    // Set built-in properties
-    if (propertyName === 'x') { firstInstance.x = value; return }
-    if (propertyName === 'y') { firstInstance.y = value; return }
-    if (propertyName === 'visible') { firstInstance.visible = value; return }
-    if (propertyName === 'active') { firstInstance.active = value; return }
-    if (propertyName === 'depth') { firstInstance.depth = value; return }
-    if (propertyName === 'solid') { firstInstance.solid = value; return }
-    if (propertyName === 'persistent') { firstInstance.persistent = value; return }
-    if (propertyName === 'sprite') { firstInstance.sprite = value; return }
-    if (propertyName === 'imageIndex') { firstInstance.imageIndex = value; return }
-    if (propertyName === 'imageSpeed') { firstInstance.imageSpeed = value; return }
-    if (propertyName === 'imageAngle') { firstInstance.imageAngle = value; return }
-    if (propertyName === 'imageXScale') { firstInstance.imageXScale = value; return }
-    if (propertyName === 'imageYScale') { firstInstance.imageYScale = value; return }
-    if (propertyName === 'imageAlpha') { firstInstance.imageAlpha = value; return }
-    
-    // Set instance variable
-    firstInstance.setVariable(propertyName, value)
+    // Lenient like GameMaker - values aren't checked against the schema
+    instances[0].writeProperty(propertyName, value, false)
+  }
+  
+  /**
+   * Add tags to this instance (already present tags are ignored)
+   */
+  public addTag(...tags: string[]): void {
+    for (const tag of tags) {
+      if (this.tags.has(tag)) continue
+      this.tags.add(tag)
+      this.gameObjectManager?.updateObjectTag(this, tag, true)
+    }
+  }
+  
+  /**
+   * Remove tags from this instance (missing tags are ignored)
+   */
+  public removeTag(...tags: string[]): void {
+    for (const tag of tags) {
+      if (!this.tags.delete(tag)) continue
+      this.gameObjectManager?.updateObjectTag(this, tag, false)
+    }
+  }
+  
+  public hasTag(tag: string): boolean {
+    return this.tags.has(tag)
+  }
+  
+  public getTags(): string[] {
+    return Array.from(this.tags)
+  }
+  
+  /**
+   * Check if this instance is of objectType or one of its descendant types ('all' always matches)
+   */
+  public isInstanceOf(objectType: string): boolean {
+    return objectType === 'all' || this.objectType === objectType || GameObject.isAncestor(this.objectType, objectType)
   }
   
   /**
@@ -279,6 +655,17 @@ export class GameObject {
     return this.drawingSystem
   }
   
+  /**
+   * Get the engine's seeded random number service
+   * Use this instead of Math.random() so runs can be reproduced from a seed
+   */
+  public getRandom(): Random {
+    if (!this.gameObjectManager) {
+      throw new Error(`${this.objectType} is not registered with a GameObjectManager`)
+    }
+    return this.gameObjectManager.getRandom()
+  }
+  
   /**
    * Add an event script to this object
    */
@@ -340,6 +727,31 @@ export class GameObject {
     this.y = y
   }
   
+  /**
+   * Snap the drawn position to the current position for this frame
+   * Call after teleporting so the object isn't drawn sliding from its old position
+   */
+  public resetInterpolation(): void {
+    this.xPrevious = this.x
+    this.yPrevious = this.y
+  }
+  
+  /**
+   * Get the interpolated X position to draw at
+   */
+  public getDrawX(): number {
+    if (!this.interpolate || !this.gameObjectManager) return this.x
+    return this.xPrevious + (this.x - this.xPrevious) * this.gameObjectManager.getInterpolationAlpha()
+  }
+  
+  /**
+   * Get the interpolated Y position to draw at
+   */
+  public getDrawY(): number {
+    if (!this.interpolate || !this.gameObjectManager) return this.y
+    return this.yPrevious + (this.y - this.yPrevious) * this.gameObjectManager.getInterpolationAlpha()
+  }
+  
   /**
    * Move the object by relative amounts
    */
@@ -349,27 +761,186 @@ export class GameObject {
   
   /**
    * Set an instance variable (unique to this instance) - GameMaker style
+   * Declared variables are validated against the schema; throws on an invalid value
    */
   public setVariable(name: string, value: any): void {
+    const definition = GameObject.getVariableDefinition(this.objectType, name)
+    if (definition) {
+      validateVariable(this.objectType, name, definition, value)
+    }
+    
+    const previous = this.getVariable(name)
     this.customVariables.set(name, value)
+    this.notifyVariableChanged(name, value, previous)
   }
   
   /**
-   * Get an instance variable, falls back to object variable if not found - GameMaker style
+   * Get an instance variable - falls back to the declared default, then the object variable
    */
-  public getVariable(name: string): any {
+  public getVariable<T = any>(name: string): T {
     // First check instance variables
     if (this.customVariables.has(name)) {
       return this.customVariables.get(name)
     }
     
+    // Declared variables start at their default (created once per instance)
+    const definition = GameObject.getVariableDefinition(this.objectType, name)
+    if (definition && definition.default !== undefined) {
+      const value = resolveDefault(definition)
+      this.customVariables.set(name, value)
+      return value
+    }
+    
     // Fall back to object variables
     const objectVars = GameObject.objectVariables.get(this.objectType)
     if (objectVars && objectVars.has(name)) {
       return objectVars.get(name)
     }
     
-    return undefined
+    return undefined as T
+  }
+  
+  /**
+   * Listen for changes of an instance variable, or of a built-in or subclass field set by
+   * setProperty(); returns a function that removes the listener
+   */
+  public onVariableChanged<T = any>(name: string, listener: VariableChangeListener<T>): () => void {
+    if (!this.variableListeners.has(name)) {
+      this.variableListeners.set(name, [])
+    }
+    this.variableListeners.get(name)!.push(listener)
+    
+    return () => {
+      const listeners = this.variableListeners.get(name)
+      const index = listeners ? listeners.indexOf(listener) : -1
+      if (index !== -1) listeners!.splice(index, 1)
+    }
+  }
+  
+  /**
+   * List every property of this instance: built-ins, declared variables, subclass fields
+   * and undeclared instance variables
+   * A subclass field is typed by a variable declared with its name, else by its current value
+   */
+  public getPropertyInfo(): PropertyInfo[] {
+    const properties = GameObject.getPropertyInfo(this.objectType)
+    const known = new Set(properties.map(property => property.name))
+    const fields = this as Record<string, unknown>
+    
+    for (const name of this.getSubclassFields()) {
+      const declared = properties.find(property => property.name === name)
+      if (declared) {
+        // Declared without a type - use the field's
+        if (declared.type === VariableType.ANY) declared.type = inferVariableType(fields[name])
+        continue
+      }
+      known.add(name)
+      properties.push({ name, type: inferVariableType(fields[name]), builtin: false, readOnly: false, declared: false })
+    }
+    for (const name of this.customVariables.keys()) {
+      if (!known.has(name)) {
+        properties.push({ name, type: VariableType.ANY, builtin: false, readOnly: false, declared: false })
+      }
+    }
+    return properties
+  }
+  
+  /**
+   * Check if a name is a built-in property, subclass field or variable of this instance
+   */
+  public hasProperty(name: string): boolean {
+    return this.isFieldProperty(name) || this.hasVariable(name)
+  }
+  
+  /**
+   * Get a built-in property, subclass field or variable by name
+   */
+  public getProperty<T = any>(name: string): T {
+    if (this.isFieldProperty(name)) {
+      return (this as Record<string, any>)[name]
+    }
+    return this.getVariable<T>(name)
+  }
+  
+  /**
+   * Set a built-in property, subclass field or variable by name and notify its listeners
+   * Throws on read-only properties and on values that don't match the built-in type or schema
+   */
+  public setProperty(name: string, value: any): void {
+    this.writeProperty(name, value, true)
+  }
+  
+  /**
+   * Get the values of every property, by name (for saving or inspecting an instance)
+   * Variables that are unset and have no default are left out
+   */
+  public getPropertyValues(): Record<string, unknown> {
+    const values: Record<string, unknown> = {}
+    for (const property of this.getPropertyInfo()) {
+      const value = this.getProperty(property.name)
+      if (value !== undefined) {
+        values[property.name] = value
+      }
+    }
+    return values
+  }
+  
+  /**
+   * Set several properties by name, skipping read-only ones (for loading a saved instance)
+   */
+  public setPropertyValues(values: Record<string, unknown>): void {
+    for (const [name, value] of Object.entries(values)) {
+      if (!getBuiltinProperty(name)?.readOnly) {
+        this.setProperty(name, value)
+      }
+    }
+  }
+  
+  private writeProperty(name: string, value: unknown, validate: boolean): void {
+    const builtin = getBuiltinProperty(name)
+    if (builtin?.readOnly) {
+      throw new Error(`Cannot set ${this.objectType}.${name}: it is read-only`)
+    }
+    
+    if (validate) {
+      if (builtin && !matchesVariableType(builtin.type, value)) {
+        throw new Error(`Invalid value for ${this.objectType}.${name}: expected ${builtin.type}, got ${value === null ? 'null' : typeof value}`)
+      }
+      const definition = builtin ? undefined : GameObject.getVariableDefinition(this.objectType, name)
+      if (definition) {
+        validateVariable(this.objectType, name, definition, value)
+      }
+    }
+    
+    const previous = this.getProperty(name)
+    if (this.isFieldProperty(name)) {
+      (this as Record<string, unknown>)[name] = value
+    } else {
+      this.customVariables.set(name, value)
+    }
+    this.notifyVariableChanged(name, value, previous)
+  }
+  
+  private notifyVariableChanged(name: string, value: unknown, previous: unknown): void {
+    if (Object.is(previous, value)) return
+    
+    for (const listener of this.variableListeners.get(name) ?? []) {
+      listener(value, previous, name)
+    }
+  }
+  
+  /**
+   * Check if a property is stored as a field (built-in or subclass) rather than an instance variable
+   */
+  private isFieldProperty(name: string): boolean {
+    return getBuiltinProperty(name) !== undefined || (Object.hasOwn(this, name) && !GameObject.baseFields!.has(name))
+  }
+  
+  /**
+   * Get the names of fields added by subclasses (Player.health) and assigned at runtime
+   */
+  private getSubclassFields(): string[] {
+    return Object.keys(this).filter(key => !GameObject.baseFields!.has(key))
   }
   
   /**
@@ -396,8 +967,8 @@ export class GameObject {
    * Check if a variable exists (checks both instance and object variables)
    */
   public hasVariable(name: string): boolean {
-    // Check instance variables first
-    if (this.customVariables.has(name)) {
+    // Check instance and declared variables first
+    if (this.customVariables.has(name) || GameObject.getVariableDefinition(this.objectType, name)) {
       return true
     }
     
@@ -415,7 +986,7 @@ export class GameObject {
   }
   
   /**
-   * Set a timer
+   * Set a timer in milliseconds - use alarm[] for frame-exact GameMaker alarms
    */
   public setTimer(name: string, duration: number, callback?: () => void): void {
     this.timers.set(name, { duration, elapsed: 0, callback })
@@ -443,81 +1014,725 @@ export class GameObject {
   }
 
   /**
-   * Update sprite animation (called during animation event phase)
+   * Count alarms down by one step and fire onAlarm(index) for each that reaches zero
+   * Called by the engine between the begin step and step events
+   * An alarm is switched off (-1) before it fires, so onAlarm can set it again
    */
-  public updateAnimation(): void {
-    // TODO: Implement sprite animation system
-    // This would update sprite frame based on animation speed
-    // and trigger ANIMATION_END events when animations complete
-    
-    // For now, this is a placeholder for future sprite animation system
-    // When implemented, this would:
-    // 1. Update current animation frame based on deltaTime and animation speed
-    // 2. Handle animation looping
-    // 3. Trigger ANIMATION_END event when non-looping animations finish
-    // 4. Handle animation blending/transitions
+  public updateAlarms(): void {
+    for (let index = 0; index < this.alarm.length; index++) {
+      // -1 is off, and setting 0 directly never fires (GameMaker behaviour)
+      if (!(this.alarm[index] > 0)) continue
+      
+      this.alarm[index]--
+      if (this.alarm[index] <= 0) {
+        this.alarm[index] = -1
+        this.onAlarm(index)
+        this.executeEventSync(GameEvent.ALARM, { index })
+      }
+    }
   }
   
   /**
-   * Check if object collides with another object
+   * Start a coroutine, advanced once per fixed step after the step event
+   * Pass a generator function (bound to this object) or a generator:
+   *   this.startCoroutine(function* () { yield waitFrames(30); yield waitUntil(() => ...) })
+   * Coroutines are cancelled automatically when the object is destroyed
    */
-  public collidesWith(other: GameObject): boolean {
-    if (!this.solid || !other.solid) return false
-    
-    return (
-      this.x < other.x + other.boundingBox.right &&
-      this.x + this.boundingBox.right > other.x &&
-      this.y < other.y + other.boundingBox.bottom &&
-      this.y + this.boundingBox.bottom > other.y
-    )
+  public startCoroutine(routine: CoroutineGenerator | ((this: this) => CoroutineGenerator)): Coroutine {
+    const generator = typeof routine === 'function' ? routine.call(this) : routine
+    const coroutine = new Coroutine(generator)
+    this.coroutines.push(coroutine)
+    return coroutine
   }
   
   /**
-   * Destroy this object
+   * Cancel a running coroutine
    */
-  public destroy(): void {
-    this.executeEvent(GameEvent.DESTROY)
-    
-    if (this.gameObjectManager) {
-      this.gameObjectManager.destroyObject(this.id)
+  public stopCoroutine(coroutine: Coroutine): void {
+    coroutine.cancel()
+    const index = this.coroutines.indexOf(coroutine)
+    if (index !== -1) {
+      this.coroutines.splice(index, 1)
     }
   }
   
   /**
-   * Clone this object (create a copy)
+   * Cancel all running coroutines
    */
-  public clone(): GameObject {
-    const clone = new GameObject(this.objectType, {
-      x: this.x,
-      y: this.y,
-      visible: this.visible,
-      active: this.active,
-      depth: this.depth,
-      solid: this.solid,
-      persistent: this.persistent,
-      sprite: this.sprite ?? undefined,
-      maskSprite: this.maskSprite ?? undefined
-    })
-    
-    // Copy custom variables
-    for (const [name, value] of this.customVariables) {
-      clone.setVariable(name, value)
-    }
-    
-    // Copy event scripts
-    for (const [event, scripts] of this.eventScripts) {
-      clone.eventScripts.set(event, [...scripts])
+  public stopAllCoroutines(): void {
+    const coroutines = this.coroutines
+    this.coroutines = []
+    for (const coroutine of coroutines) {
+      coroutine.cancel()
     }
-    
-    return clone
   }
   
   /**
-   * Update the object (called every frame)
+   * Check if any coroutines are running
    */
-  public update(deltaTime: number): void {
-    if (!this.active) return
-    
+  public hasCoroutines(): boolean {
+    return this.coroutines.length > 0
+  }
+  
+  /**
+   * Advance all coroutines by one step (called by the engine after the step event)
+   * A coroutine that throws doesn't stop the others; the first error is rethrown afterwards
+   */
+  public updateCoroutines(): void {
+    if (this.coroutines.length === 0) return
+    
+    let failed = false
+    let firstError: unknown
+    
+    // Iterate over a copy - coroutines may start or stop others while running
+    for (const coroutine of [...this.coroutines]) {
+      try {
+        coroutine.step()
+      } catch (error) {
+        if (!failed) {
+          failed = true
+          firstError = error
+        }
+      }
+    }
+    this.coroutines = this.coroutines.filter(coroutine => !coroutine.isFinished())
+    
+    if (failed) {
+      throw firstError
+    }
+  }
+  
+  /**
+   * Attach a component - its hooks run after this object's own events
+   */
+  public addComponent<T extends Component>(component: T): T {
+    if (component.isAttached()) {
+      throw new Error(`${component.constructor.name} is already attached to a GameObject`)
+    }
+    
+    component.setGameObject(this)
+    this.components.push(component)
+    this.gameObjectManager?.updateObjectComponent(this, component, true)
+    component.onAttach()
+    return component
+  }
+  
+  /**
+   * Detach a component instance, or the first component of a type
+   * Returns the removed component, or null if none matched
+   */
+  public removeComponent<T extends Component>(target: T | ComponentType<T>): T | null {
+    const index = this.components.findIndex(component =>
+      typeof target === 'function' ? component instanceof target : component === target
+    )
+    if (index === -1) return null
+    
+    const component = this.components[index] as T
+    component.onDetach()
+    this.components.splice(index, 1)
+    this.gameObjectManager?.updateObjectComponent(this, component, false)
+    component.setGameObject(null)
+    return component
+  }
+  
+  /**
+   * Get the first component of a type (subclasses match) - obj.getComponent(Health)
+   */
+  public getComponent<T extends Component>(type: ComponentType<T>): T | null {
+    const component = this.components.find(component => component instanceof type)
+    return component ? component as T : null
+  }
+  
+  /**
+   * Get every component of a type
+   */
+  public getComponents<T extends Component>(type: ComponentType<T>): T[] {
+    return this.components.filter((component): component is T => component instanceof type)
+  }
+  
+  /**
+   * Get how many components are attached
+   */
+  public getComponentCount(): number {
+    return this.components.length
+  }
+  
+  /**
+   * Check if a component of a type is attached
+   */
+  public hasComponent(type: ComponentType): boolean {
+    return this.components.some(component => component instanceof type)
+  }
+  
+  /**
+   * Run a hook on every enabled component
+   * A failing component is reported as phase:ComponentName and doesn't stop the others
+   */
+  public invokeComponentHook(hook: ComponentHook, phase: string = hook): void {
+    if (this.components.length === 0) return
+    
+    // Copy so hooks can add or remove components safely
+    for (const component of [...this.components]) {
+      if (!component.enabled || !component.isAttached()) continue
+      
+      try {
+        component[hook]()
+      } catch (error) {
+        this.reportError(`${phase}:${component.constructor.name}`, error)
+      }
+    }
+  }
+  
+  /**
+   * Report an exception from an event this object runs itself - to the engine's error policy
+   * when managed, else to the console
+   */
+  private reportError(phase: string, error: unknown): void {
+    if (this.gameObjectManager) {
+      this.gameObjectManager.reportObjectError(this, phase, error)
+    } else {
+      console.error(`Error executing ${phase} on ${this.objectType}:`, error)
+    }
+  }
+  
+  /**
+   * Copy the animator, state machine and components (ObjectPool takes one right after construction)
+   */
+  public snapshotHelpers(): HelperSnapshot<this> {
+    return {
+      animator: this.animator ? this.animator.clone(this.createAnimatorTarget()) : null,
+      stateMachine: this.stateMachine ? this.stateMachine.clone(this) : null,
+      components: this.components.map(component => ({ component, initial: component.clone() }))
+    }
+  }
+  
+  /**
+   * Rewind the animator, state machine and components to a snapshot, reusing them in place
+   * Components attached since are removed; detached ones are attached again
+   */
+  public restoreHelpers(snapshot: HelperSnapshot<this>): void {
+    if (snapshot.animator) {
+      this.getAnimator().reset(snapshot.animator)
+    } else {
+      this.animator = null
+    }
+    
+    if (snapshot.stateMachine) {
+      this.getStateMachine().reset(snapshot.stateMachine)
+    } else {
+      this.stateMachine = null
+    }
+    
+    const initialComponents = new Set(snapshot.components.map(entry => entry.component))
+    for (const component of [...this.components]) {
+      if (!initialComponents.has(component)) {
+        this.removeComponent(component)
+      }
+    }
+    
+    this.components.length = 0
+    for (const entry of snapshot.components) {
+      // A component moved to another object is replaced rather than taken back
+      if (entry.component.isAttached() && entry.component.gameObject !== this) {
+        entry.component = entry.initial.clone()
+      }
+      
+      const component = entry.component
+      component.reset(entry.initial)
+      this.components.push(component)
+      if (!component.isAttached()) {
+        component.setGameObject(this)
+        component.onAttach()
+      }
+    }
+  }
+  
+  /**
+   * Get this object's state machine, creating it on first use
+   */
+  public getStateMachine(): StateMachine<this> {
+    if (!this.stateMachine) {
+      this.stateMachine = new StateMachine(this)
+    }
+    return this.stateMachine
+  }
+  
+  /**
+   * Add a state to this object's state machine
+   */
+  public addState(state: State<this>): void {
+    this.getStateMachine().addState(state)
+  }
+  
+  /**
+   * Request a state change - applied after the step end event (the first state is entered immediately)
+   */
+  public changeState(name: string): void {
+    this.getStateMachine().changeState(name)
+  }
+  
+  /**
+   * Request a change back to the previous state, returning false if there is none
+   */
+  public returnToPreviousState(): boolean {
+    return this.getStateMachine().returnToPrevious()
+  }
+  
+  /**
+   * Get the current state name (null without a state machine)
+   */
+  public getState(): string | null {
+    return this.stateMachine ? this.stateMachine.getCurrentState() : null
+  }
+  
+  /**
+   * Check if the state machine is in the given state
+   */
+  public isInState(name: string): boolean {
+    return this.getState() === name
+  }
+  
+  /**
+   * Run the current state's step hook (called by the engine after the step event)
+   */
+  public stepState(): void {
+    this.stateMachine?.step()
+  }
+  
+  /**
+   * Run the current state's draw hook (called by the engine after the draw event)
+   */
+  public drawState(): void {
+    this.stateMachine?.draw()
+  }
+  
+  /**
+   * Apply a requested state change (called by the engine after the step end event)
+   */
+  public applyStateTransition(): void {
+    this.stateMachine?.applyPendingTransition()
+  }
+  
+  /**
+   * Get this object's clip animator, creating it on first use
+   */
+  public getAnimator(): Animator {
+    if (!this.animator) {
+      this.animator = new Animator(this.createAnimatorTarget())
+    }
+    return this.animator
+  }
+  
+  private createAnimatorTarget(): AnimatorTarget {
+    return {
+      applyAnimationFrame: (sprite, frame) => {
+        this.sprite = sprite
+        this.imageIndex = frame
+      },
+      handleAnimationEvent: (event, clip, frameIndex) => {
+        this.onAnimationEvent(event, clip, frameIndex)
+        this.executeEventSync(GameEvent.ANIMATION_EVENT, { event, clip, frame: frameIndex })
+      },
+      handleAnimationEnd: clip => {
+        this.onAnimationEnd(clip)
+        this.executeEventSync(GameEvent.ANIMATION_END, { clip })
+      }
+    }
+  }
+  
+  /**
+   * Add a named animation clip to this object
+   */
+  public addAnimation(clip: AnimationClip | AnimationClipConfig): AnimationClip {
+    return this.getAnimator().addClip(clip)
+  }
+  
+  /**
+   * Play a named clip now, replacing the current one and any queued clips
+   */
+  public play(clipName: string, restart: boolean = false): void {
+    this.getAnimator().play(clipName, restart)
+  }
+  
+  /**
+   * Play a named clip after the current clip finishes its cycle
+   */
+  public queueAnimation(clipName: string): void {
+    this.getAnimator().queueClip(clipName)
+  }
+  
+  /**
+   * Stop clip playback and return to plain sprite strip animation
+   */
+  public stopAnimation(): void {
+    this.animator?.stop()
+  }
+  
+  /**
+   * Get the name of the playing clip (null when not using clips)
+   */
+  public getCurrentAnimation(): string | null {
+    return this.animator ? this.animator.getCurrentClip() : null
+  }
+  
+  /**
+   * Advance the current clip, or imageIndex by the sprite's animation speed times imageSpeed
+   * Called by the engine after the step end event; fires ANIMATION_END each time
+   * the animation wraps (or reaches its last frame when imageLoop is false)
+   */
+  public updateAnimation(): void {
+    const stepsPerSecond = this.gameObjectManager ? this.gameObjectManager.getStepsPerSecond() : 60
+    
+    if (this.animator && this.animator.getCurrentClip() !== null) {
+      this.animator.update(1000 / stepsPerSecond * Math.max(0, this.imageSpeed), stepsPerSecond)
+      return
+    }
+    
+    if (!this.sprite || this.imageSpeed === 0) return
+    
+    const frameCount: number = this.sprite.frameCount
+    if (frameCount <= 1) return
+    
+    this.imageIndex += this.sprite.getFramesPerStep(stepsPerSecond) * this.imageSpeed
+    
+    if (this.imageIndex < frameCount && this.imageIndex >= 0) return
+    
+    if (this.imageLoop) {
+      this.imageIndex = ((this.imageIndex % frameCount) + frameCount) % frameCount
+    } else {
+      // Hold the end frame; set imageSpeed again to replay
+      this.imageIndex = this.imageIndex >= frameCount ? frameCount - 1 : 0
+      this.imageSpeed = 0
+    }
+    
+    this.onAnimationEnd(null)
+    this.executeEventSync(GameEvent.ANIMATION_END, { clip: null })
+  }
+  
+  /**
+   * GameMaker's motion_set() - replace the current motion
+   */
+  public motionSet(direction: number, speed: number): void {
+    this._direction = ((direction % 360) + 360) % 360
+    this._speed = speed
+    this.updateMotionComponents()
+  }
+  
+  /**
+   * GameMaker's motion_add() - add a vector to the current motion
+   */
+  public motionAdd(direction: number, speed: number): void {
+    const radians = direction * Math.PI / 180
+    this._hspeed += speed * Math.cos(radians)
+    this._vspeed -= speed * Math.sin(radians)
+    this.updateMotionPolar()
+  }
+  
+  /**
+   * Apply friction and gravity, then move by hspeed/vspeed
+   * Called by the engine between the step and step end events
+   */
+  public updateMotion(): void {
+    if (this.friction !== 0 && this._speed !== 0) {
+      const remaining = Math.max(0, Math.abs(this._speed) - this.friction)
+      this.speed = Math.sign(this._speed) * remaining
+    }
+    
+    if (this.gravity !== 0) {
+      this.motionAdd(this.gravityDirection, this.gravity)
+    }
+    
+    this.x += this._hspeed
+    this.y += this._vspeed
+  }
+  
+  private updateMotionComponents(): void {
+    const radians = this._direction * Math.PI / 180
+    // Snap float noise so axis-aligned directions give exact zeros
+    const hspeed = this._speed * Math.cos(radians)
+    const vspeed = -this._speed * Math.sin(radians)
+    this._hspeed = Math.abs(hspeed) < 1e-10 ? 0 : hspeed
+    this._vspeed = Math.abs(vspeed) < 1e-10 ? 0 : vspeed
+  }
+  
+  private updateMotionPolar(): void {
+    this._speed = Math.hypot(this._hspeed, this._vspeed)
+    // Keep the last direction when stopped, like GameMaker
+    if (this._speed !== 0) {
+      const degrees = Math.atan2(-this._vspeed, this._hspeed) * 180 / Math.PI
+      this._direction = (degrees + 360) % 360
+    }
+  }
+  
+  /**
+   * Get the collision mask this instance uses (null if it has nothing to collide with)
+   */
+  public getCollisionMask(): CollisionMask | null {
+    if (this.collisionMask) return this.collisionMask
+    if (this.maskSprite) return RotatedRectangleMask.fromSprite(this.maskSprite)
+    
+    const box = this.boundingBox
+    if (box.right > box.left && box.bottom > box.top) {
+      const cached = this.boundingBoxMask
+      if (cached && cached.left === box.left && cached.top === box.top && cached.right === box.right && cached.bottom === box.bottom) {
+        return cached
+      }
+      this.boundingBoxMask = new RectangleMask(box.left, box.top, box.right, box.bottom)
+      return this.boundingBoxMask
+    }
+    
+    return this.sprite ? RotatedRectangleMask.fromSprite(this.sprite) : null
+  }
+  
+  /**
+   * Get the collision mask placed in the world, optionally as if the object were at (x, y)
+   * Applies imageXScale, imageYScale, imageAngle and (for precise masks) imageIndex
+   */
+  public getCollisionShape(x: number = this.x, y: number = this.y): CollisionShape | null {
+    const mask = this.getCollisionMask()
+    if (!mask) return null
+    
+    return mask.toShape({
+      x,
+      y,
+      xScale: this.imageXScale,
+      yScale: this.imageYScale,
+      angle: this.imageAngle,
+      frame: this.imageIndex
+    })
+  }
+  
+  /**
+   * Get the world-space collision bounds, optionally as if the object were at (x, y)
+   */
+  public getBounds(x: number = this.x, y: number = this.y): Bounds {
+    const shape = this.getCollisionShape(x, y)
+    return shape ? shape.bounds : { left: x, top: y, right: x, bottom: y }
+  }
+  
+  /**
+   * Check if object collides with another object
+   */
+  public collidesWith(other: GameObject): boolean {
+    if (!this.solid || !other.solid) return false
+    
+    const a = this.getCollisionShape()
+    const b = other.getCollisionShape()
+    return a !== null && b !== null && shapesOverlap(a, b)
+  }
+  
+  /**
+   * GameMaker's with() from this instance - run fn for every active instance of a type
+   * (including descendants), 'all', or a single instance, with this instance as `other`
+   * Return false from fn to stop early
+   */
+  public with(target: string | TagFilter | GameObject, fn: (instance: GameObject, other: this) => void | boolean): void {
+    if (!this.gameObjectManager) {
+      throw new Error(`${this.objectType} is not registered with a GameObjectManager`)
+    }
+    this.gameObjectManager.with(target, instance => fn(instance, this))
+  }
+  
+  /**
+   * GameMaker's place_meeting() - would this instance touch an instance of objectType at (x, y)?
+   */
+  public placeMeeting(x: number, y: number, objectType: string | TagFilter = 'all'): boolean {
+    return this.instancePlace(x, y, objectType) !== null
+  }
+  
+  /**
+   * GameMaker's instance_place() - the first instance this one would touch at (x, y)
+   */
+  public instancePlace(x: number, y: number, objectType: string | TagFilter = 'all'): GameObject | null {
+    const shape = this.getCollisionShape(x, y)
+    if (!shape) return null
+    return this.getCollisionManager().collisionShape(shape, objectType, true, this)
+  }
+  
+  /**
+   * GameMaker's instance_place_list() - every instance this one would touch at (x, y)
+   */
+  public instancePlaceList(x: number, y: number, objectType: string | TagFilter = 'all'): GameObject[] {
+    const shape = this.getCollisionShape(x, y)
+    if (!shape) return []
+    return this.getCollisionManager().collisionShapeList(shape, objectType, true, this)
+  }
+  
+  /**
+   * GameMaker's place_free() - true if this instance would touch no solid instance at (x, y)
+   */
+  public placeFree(x: number, y: number): boolean {
+    return this.instancePlaceList(x, y).every(other => !other.solid)
+  }
+  
+  /**
+   * GameMaker's collision_point() - notme skips this instance
+   */
+  public collisionPoint(x: number, y: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject | null {
+    return this.getCollisionManager().collisionPoint(x, y, objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_point_list()
+   */
+  public collisionPointList(x: number, y: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject[] {
+    return this.getCollisionManager().collisionPointList(x, y, objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_rectangle()
+   */
+  public collisionRectangle(x1: number, y1: number, x2: number, y2: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject | null {
+    return this.getCollisionManager().collisionShape(rectangleShape(x1, y1, x2, y2), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_rectangle_list()
+   */
+  public collisionRectangleList(x1: number, y1: number, x2: number, y2: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject[] {
+    return this.getCollisionManager().collisionShapeList(rectangleShape(x1, y1, x2, y2), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_circle()
+   */
+  public collisionCircle(x: number, y: number, radius: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject | null {
+    return this.getCollisionManager().collisionShape(circleShape(x, y, radius), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_circle_list()
+   */
+  public collisionCircleList(x: number, y: number, radius: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject[] {
+    return this.getCollisionManager().collisionShapeList(circleShape(x, y, radius), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_line()
+   */
+  public collisionLine(x1: number, y1: number, x2: number, y2: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject | null {
+    return this.getCollisionManager().collisionShape(lineShape(x1, y1, x2, y2), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's collision_line_list()
+   */
+  public collisionLineList(x1: number, y1: number, x2: number, y2: number, objectType: string | TagFilter = 'all', precise: boolean = true, notme: boolean = true): GameObject[] {
+    return this.getCollisionManager().collisionShapeList(lineShape(x1, y1, x2, y2), objectType, precise, notme ? this : null)
+  }
+  
+  /**
+   * GameMaker's instance_position() - includes this instance if it covers the point
+   */
+  public instancePosition(x: number, y: number, objectType: string | TagFilter = 'all'): GameObject | null {
+    return this.getCollisionManager().collisionPoint(x, y, objectType)
+  }
+  
+  /**
+   * GameMaker's instance_position_list()
+   */
+  public instancePositionList(x: number, y: number, objectType: string | TagFilter = 'all'): GameObject[] {
+    return this.getCollisionManager().collisionPointList(x, y, objectType)
+  }
+  
+  private getCollisionManager(): IGameObjectManager {
+    if (!this.gameObjectManager) {
+      throw new Error(`${this.objectType} is not registered with a GameObjectManager`)
+    }
+    return this.gameObjectManager
+  }
+  
+  /**
+   * Summary of this instance for debug output
+   */
+  public getDebugInfo(): Record<string, unknown> {
+    return {
+      id: this.id,
+      type: this.objectType,
+      x: Math.round(this.x * 100) / 100,
+      y: Math.round(this.y * 100) / 100,
+      active: this.active,
+      visible: this.visible,
+      state: this.getState() ?? '-',
+      tags: this.getTags().join(', ')
+    }
+  }
+  
+  /**
+   * Run the destroy event, onDestroy and component onDestroy hooks without removing the object
+   * Used by destroy() and when a pooled instance is released
+   */
+  public runDestroyEvents(): void {
+    this.stopAllCoroutines()
+    this.executeEvent(GameEvent.DESTROY)
+    
+    try {
+      this.onDestroy()
+    } catch (error) {
+      console.error(`Error executing onDestroy on ${this.objectType}:`, error)
+    }
+    
+    this.invokeComponentHook('onDestroy', GameEvent.DESTROY)
+  }
+  
+  /**
+   * Destroy this object
+   */
+  public destroy(): void {
+    this.runDestroyEvents()
+    
+    if (this.gameObjectManager) {
+      this.gameObjectManager.destroyObject(this.id)
+    }
+  }
+  
+  /**
+   * Create a live copy of this instance at (x, y) - GameMaker's instance_copy()
+   * The copy keeps the subclass and every field (copied with copyValue) and gets a new id and
+   * its own animator, state machine and components. Timers, coroutines and variable listeners
+   * are not copied - their callbacks would still act on this instance
+   * Override onClone() to customise the copy; it is then added to this object's manager,
+   * running its create event and onCreate only if performCreate is true
+   */
+  public clone(x: number = this.x, y: number = this.y, performCreate: boolean = false): this {
+    const copy = Object.create(Object.getPrototypeOf(this)) as this
+    const source = this as Record<string, unknown>
+    const target = copy as Record<string, unknown>
+    for (const key of Object.keys(this)) {
+      target[key] = copyValue(source[key])
+    }
+    copy._id = GameObject.nextId++
+    
+    // Rebuild helpers that are bound to their owner
+    copy.timers = new Map()
+    copy.coroutines = []
+    copy.variableListeners = new Map()
+    copy.animator = this.animator ? this.animator.clone(copy.createAnimatorTarget()) : null
+    copy.stateMachine = this.stateMachine ? this.stateMachine.clone(copy) : null
+    copy.components = []
+    for (const component of this.components) {
+      copy.addComponent(component.clone())
+    }
+    
+    copy.x = x
+    copy.y = y
+    copy.xPrevious = x
+    copy.yPrevious = y
+    
+    copy.onClone(this)
+    
+    if (this.gameObjectManager) {
+      this.gameObjectManager.addExistingObject(copy, performCreate)
+    }
+    return copy
+  }
+  
+  /**
+   * Update the object (called every frame)
+   */
+  public update(deltaTime: number): void {
+    if (!this.active) return
+    
     this.updateTimers(deltaTime)
   }
   
@@ -536,11 +1751,11 @@ export class GameObject {
       Math.floor(this.imageIndex) % this.sprite.frameCount : 
       Math.floor(this.imageIndex)
     
-    // Draw the sprite using the drawing system
+    // Draw the sprite using the drawing system (interpolated between fixed steps)
     this.drawingSystem.drawSpriteFromSprite(
       this.sprite,
-      this.x,
-      this.y,
+      this.getDrawX(),
+      this.getDrawY(),
       currentFrame,
       this.imageXScale,
       this.imageYScale,
@@ -554,6 +1769,14 @@ export class GameObject {
   // Override these in subclasses for clean event handling
   // ========================================
   
+  /**
+   * Called on a new copy made by clone(), before it is added to the manager
+   * Override to adjust copied fields - original is the instance that was cloned
+   */
+  public onClone(_original: this): void {
+    // Override in subclasses
+  }
+  
   /**
    * Called once when the object is created
    * Override this instead of using addEventScript(GameEvent.CREATE, ...)
@@ -611,6 +1834,30 @@ export class GameObject {
     // Override in subclasses
   }
   
+  /**
+   * Called every frame before drawing the GUI layer
+   * Override this instead of using addEventScript(GameEvent.DRAW_GUI_BEGIN, ...)
+   */
+  public onDrawGUIBegin(): void {
+    // Override in subclasses
+  }
+  
+  /**
+   * Called every frame to draw the GUI layer, on top of the world
+   * Override this instead of using addEventScript(GameEvent.DRAW_GUI, ...)
+   */
+  public onDrawGUI(): void {
+    // Override in subclasses
+  }
+  
+  /**
+   * Called every frame after drawing the GUI layer
+   * Override this instead of using addEventScript(GameEvent.DRAW_GUI_END, ...)
+   */
+  public onDrawGUIEnd(): void {
+    // Override in subclasses
+  }
+  
   /**
    * Called when the object is destroyed
    * Override this instead of using addEventScript(GameEvent.DESTROY, ...)
@@ -619,6 +1866,31 @@ export class GameObject {
     // Override in subclasses
   }
   
+  /**
+   * Called when alarm[index] counts down to zero
+   * Override this instead of using addEventScript(GameEvent.ALARM, ...)
+   */
+  public onAlarm(_index: number): void {
+    // Override in subclasses
+  }
+  
+  /**
+   * Called when the sprite animation or clip completes a loop (or stops on its last frame)
+   * clip is null for plain sprite strip animation
+   * Override this instead of using addEventScript(GameEvent.ANIMATION_END, ...)
+   */
+  public onAnimationEnd(_clip: string | null): void {
+    // Override in subclasses
+  }
+  
+  /**
+   * Called when a clip enters a frame tagged with an event (e.g. 'footstep')
+   * Override this instead of using addEventScript(GameEvent.ANIMATION_EVENT, ...)
+   */
+  public onAnimationEvent(_event: string, _clip: string, _frameIndex: number): void {
+    // Override in subclasses
+  }
+  
   /**
    * Called when collision occurs with another object
    * Override this instead of using addEventScript(GameEvent.COLLISION, ...)
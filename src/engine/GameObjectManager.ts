@@ -1,8 +1,18 @@
-import { GameObject, type GameObjectProperties, GameEvent, type IDrawingSystem } from './GameObject'
+import { GameObject, type GameObjectProperties, GameEvent, type IDrawingSystem, type TagFilter } from './GameObject'
 import type { EventManager } from './EventManager'
+import { Random } from './Random.ts'
+import { Component, type ComponentType } from './Component.ts'
+import { SpatialHash, type Bounds } from './SpatialHash.ts'
+import { ObjectPool, type PoolFactory, type PoolOptions, type PoolStats } from './ObjectPool.ts'
+import { shapesOverlap, shapeContainsPoint, boundsOverlap, rectangleShape, circleShape, lineShape, type CollisionShape } from './CollisionMask.ts'
 
 // Modern TypeScript types instead of GameMaker compatibility
-export type ObjectFilter = string | 'all'
+export type ObjectFilter = string | 'all' | TagFilter
+
+/**
+ * Receives exceptions thrown by object events the manager or the object runs itself
+ */
+export type ObjectErrorHandler = (gameObject: GameObject, phase: string, error: unknown) => void
 
 /**
  * Manages all game objects in the engine
@@ -14,12 +24,30 @@ export class GameObjectManager {
   private inactiveGameObjects: Map<number, GameObject> = new Map()
   private pendingDestroyObjects: Map<number, GameObject> = new Map()
   private objectsByType: Map<string, Set<GameObject>> = new Map()
+  private objectsByTag: Map<string, Set<GameObject>> = new Map()
+  private componentsByType: Map<ComponentType, Set<Component>> = new Map()
+  
+  // Registration order, used to merge per-type sets back into instance order
+  private instanceOrder: WeakMap<GameObject, number> = new WeakMap()
+  private nextInstanceOrder: number = 0
   private eventManager: EventManager
   private drawingSystem: IDrawingSystem | null = null
+  private interpolationAlpha: number = 1
+  private stepsPerSecond: number = 60
+  private errorHandler: ObjectErrorHandler | null = null
+  private random: Random
+  
+  // Collision broadphase and per-type-pair filtering
+  private spatialHash: SpatialHash<GameObject> = new SpatialHash(64)
+  private disabledCollisionPairs: Set<string> = new Set()
   
-  constructor(eventManager: EventManager, drawingSystem?: IDrawingSystem) {
+  // Reusable instances for frequently created objects, by type
+  private pools: Map<string, ObjectPool<GameObject>> = new Map()
+  
+  constructor(eventManager: EventManager, drawingSystem?: IDrawingSystem, random?: Random) {
     this.eventManager = eventManager
     this.drawingSystem = drawingSystem || null
+    this.random = random || new Random()
     
     // Set this manager as the global reference for GameMaker-style object property access
     GameObject.setGlobalGameObjectManager(this)
@@ -35,45 +63,21 @@ export class GameObjectManager {
       ...properties
     })
     
-    gameObject.setManagers(this.eventManager, this, this.drawingSystem || undefined)
-    
-    // Add to collections
-    this.gameObjects.set(gameObject.id, gameObject)
-    
-    // Objects are active by default
-    if (gameObject.active) {
-      this.activeGameObjects.set(gameObject.id, gameObject)
-    } else {
-      this.inactiveGameObjects.set(gameObject.id, gameObject)
-    }
-    
-    if (!this.objectsByType.has(objectType)) {
-      this.objectsByType.set(objectType, new Set())
-    }
-    this.objectsByType.get(objectType)!.add(gameObject)
-    
-    // Execute create event immediately
-    console.log(`🎮 Executing CREATE event for ${gameObject.objectType}`)
-    gameObject.executeEventSync(GameEvent.CREATE)
-    
-    // Also call the virtual onCreate method
-    try {
-      gameObject.onCreate()
-    } catch (error) {
-      console.error(`Error executing onCreate on ${gameObject.objectType}:`, error)
-    }
+    this.addExistingObject(gameObject)
     
     return gameObject
   }
 
   /**
    * Add an existing GameObject to the manager
+   * runCreate is false for instances that were already set up, like clones
    */
-  public addExistingObject(gameObject: GameObject): void {
+  public addExistingObject(gameObject: GameObject, runCreate: boolean = true): void {
     gameObject.setManagers(this.eventManager, this, this.drawingSystem || undefined)
     
     // Add to collections
     this.gameObjects.set(gameObject.id, gameObject)
+    this.instanceOrder.set(gameObject, this.nextInstanceOrder++)
     
     // Add to appropriate active/inactive collection
     if (gameObject.active) {
@@ -87,8 +91,16 @@ export class GameObjectManager {
     }
     this.objectsByType.get(gameObject.objectType)!.add(gameObject)
     
+    for (const tag of gameObject.getTags()) {
+      this.addToTagIndex(gameObject, tag)
+    }
+    for (const component of gameObject.getComponents(Component)) {
+      this.indexComponent(component, true)
+    }
+    
+    if (!runCreate) return
+    
     // Execute create event immediately
-    console.log(`🎮 Executing CREATE event for ${gameObject.objectType}`)
     gameObject.executeEventSync(GameEvent.CREATE)
     
     // Also call the virtual onCreate method
@@ -99,12 +111,80 @@ export class GameObjectManager {
     }
   }
   
+  /**
+   * Set up the pool for a type with the factory that creates its instances
+   * Types acquired without a registered pool get a plain GameObject pool
+   */
+  public registerPool<T extends GameObject>(objectType: string, factory: PoolFactory<T>, options: PoolOptions = {}): void {
+    if (this.pools.get(objectType)?.getStats().inUse) {
+      throw new Error(`Cannot replace the pool for '${objectType}' while its instances are in use`)
+    }
+    this.pools.set(objectType, new ObjectPool<T>(objectType, factory, options))
+  }
+  
+  /**
+   * Get an instance from the pool (created if none is free), reset to its constructor state
+   * A reused instance gets a fresh id, so ids stored during its previous life don't find it;
+   * it is added like a new object and runs its create event and onCreate
+   */
+  public acquire<T extends GameObject = GameObject>(objectType: string, x: number = 0, y: number = 0): T {
+    let pool = this.pools.get(objectType)
+    if (!pool) {
+      pool = new ObjectPool(objectType, () => new GameObject(objectType))
+      this.pools.set(objectType, pool)
+    }
+    
+    const gameObject = pool.take()
+    
+    gameObject.x = x
+    gameObject.y = y
+    gameObject.xPrevious = x
+    gameObject.yPrevious = y
+    
+    this.addExistingObject(gameObject)
+    return gameObject as T
+  }
+  
+  /**
+   * Return an acquired instance to its pool instead of destroying it
+   * Runs its destroy event and onDestroy; like a destroyed object it is removed from every
+   * collection at the end of the frame, and only then becomes available to acquire again
+   * Returns false if the instance was already released
+   */
+  public release(gameObject: GameObject): boolean {
+    const pool = this.pools.get(gameObject.objectType)
+    if (!pool || !pool.owns(gameObject)) {
+      throw new Error(`${gameObject.objectType} ${gameObject.id} was not acquired from a pool`)
+    }
+    if (!pool.isInUse(gameObject) || this.pendingDestroyObjects.has(gameObject.id)) {
+      return false
+    }
+    
+    // cleanupDestroyedObjects() hands it back to the pool
+    gameObject.destroy()
+    return true
+  }
+  
+  /**
+   * Usage counters of every pool, by type
+   */
+  public getPoolStats(): Record<string, PoolStats> {
+    const stats: Record<string, PoolStats> = {}
+    for (const [objectType, pool] of this.pools) {
+      stats[objectType] = pool.getStats()
+    }
+    return stats
+  }
+  
   /**
    * Mark an object for destruction
    */
   public destroyObject(objectId: number): void {
     const gameObject = this.gameObjects.get(objectId)
     if (gameObject) {
+      // Destroyed objects never resume their coroutines
+      gameObject.stopAllCoroutines()
+      
       // Move to pending destroy collection
       this.pendingDestroyObjects.set(objectId, gameObject)
       
@@ -122,14 +202,159 @@ export class GameObjectManager {
   }
   
   /**
-   * Get all objects of a specific type or all objects
+   * Get all objects of a specific type (including descendant types), with a tag, or all objects
    */
   public getObjectsByType(objectType: ObjectFilter): GameObject[] {
+    if (typeof objectType !== 'string') {
+      return this.getObjectsByTag(objectType.tag)
+    }
     if (objectType === 'all') {
       return this.getAllObjects()
     }
-    const objectSet = this.objectsByType.get(objectType as string)
-    return objectSet ? Array.from(objectSet) : []
+    
+    const objectSet = this.objectsByType.get(objectType)
+    const objects = objectSet ? Array.from(objectSet) : []
+    
+    // Parent types include their descendants, kept in instance order
+    const descendantTypes = GameObject.getDescendantTypes(objectType)
+    if (descendantTypes.length === 0) {
+      return objects
+    }
+    for (const descendantType of descendantTypes) {
+      const descendantSet = this.objectsByType.get(descendantType)
+      if (descendantSet) objects.push(...descendantSet)
+    }
+    return objects.sort((a, b) => this.instanceOrder.get(a)! - this.instanceOrder.get(b)!)
+  }
+  
+  /**
+   * Get all objects with a tag, in instance order
+   */
+  public getObjectsByTag(tag: string): GameObject[] {
+    const objectSet = this.objectsByTag.get(tag)
+    if (!objectSet) return []
+    return Array.from(objectSet).sort((a, b) => this.instanceOrder.get(a)! - this.instanceOrder.get(b)!)
+  }
+  
+  /**
+   * Get the number of objects with a tag
+   */
+  public getTagCount(tag: string): number {
+    return this.objectsByTag.get(tag)?.size ?? 0
+  }
+  
+  /**
+   * Get every tag that at least one object has
+   */
+  public getTags(): string[] {
+    return Array.from(this.objectsByTag.keys())
+  }
+  
+  /**
+   * Keep the tag index in sync (called by GameObject.addTag/removeTag)
+   */
+  public updateObjectTag(gameObject: GameObject, tag: string, added: boolean): void {
+    // Released pooled instances keep their manager reference but aren't indexed
+    if (this.gameObjects.get(gameObject.id) !== gameObject) return
+    
+    if (added) {
+      this.addToTagIndex(gameObject, tag)
+    } else {
+      this.removeFromTagIndex(gameObject, tag)
+    }
+  }
+  
+  private addToTagIndex(gameObject: GameObject, tag: string): void {
+    if (!this.objectsByTag.has(tag)) {
+      this.objectsByTag.set(tag, new Set())
+    }
+    this.objectsByTag.get(tag)!.add(gameObject)
+  }
+  
+  private removeFromTagIndex(gameObject: GameObject, tag: string): void {
+    const tagSet = this.objectsByTag.get(tag)
+    if (tagSet) {
+      tagSet.delete(gameObject)
+      if (tagSet.size === 0) {
+        this.objectsByTag.delete(tag)
+      }
+    }
+  }
+  
+  /**
+   * Get every instance with a component of the given type attached, in instance order
+   */
+  public getObjectsWithComponent(type: ComponentType): GameObject[] {
+    const owners = new Set(this.getAllComponents(type).map(component => component.gameObject))
+    return Array.from(owners)
+  }
+  
+  /**
+   * Get every attached component of a type across all instances, in instance order
+   */
+  public getAllComponents<T extends Component>(type: ComponentType<T>): T[] {
+    const componentSet = this.componentsByType.get(type)
+    if (!componentSet) return []
+    
+    // Stable sort - an instance's components stay in the order they were attached
+    return (Array.from(componentSet) as T[]).sort((a, b) =>
+      this.instanceOrder.get(a.gameObject)! - this.instanceOrder.get(b.gameObject)!
+    )
+  }
+  
+  /**
+   * Keep the component index in sync (called by GameObject.addComponent/removeComponent)
+   */
+  public updateObjectComponent(gameObject: GameObject, component: Component, added: boolean): void {
+    // Released pooled instances and unregistered clones aren't indexed
+    if (this.gameObjects.get(gameObject.id) !== gameObject) return
+    this.indexComponent(component, added)
+  }
+  
+  /**
+   * Add or remove a component under its class and every base class, so subclasses match
+   */
+  private indexComponent(component: Component, added: boolean): void {
+    let prototype = Object.getPrototypeOf(component)
+    while (prototype && prototype !== Object.prototype) {
+      const type = prototype.constructor as ComponentType
+      if (added) {
+        if (!this.componentsByType.has(type)) {
+          this.componentsByType.set(type, new Set())
+        }
+        this.componentsByType.get(type)!.add(component)
+      } else {
+        const componentSet = this.componentsByType.get(type)
+        componentSet?.delete(component)
+        if (componentSet?.size === 0) {
+          this.componentsByType.delete(type)
+        }
+      }
+      prototype = Object.getPrototypeOf(prototype)
+    }
+  }
+  
+  /**
+   * GameMaker's with() - run fn for every active instance of a type (including descendant
+   * types), a tag, 'all', or a single instance. The instances are collected up front: ones created
+   * during the loop aren't visited, and ones destroyed or deactivated before their turn are
+   * skipped. Return false from fn to stop early (GML's break)
+   */
+  public with(target: ObjectFilter | GameObject, fn: (instance: GameObject) => void | boolean): void {
+    const instances = target instanceof GameObject ? [target] : this.getObjectsByType(target)
+    
+    for (const instance of instances) {
+      if (!instance.active || !this.instanceExists(instance)) continue
+      if (fn(instance) === false) break
+    }
+  }
+  
+  /**
+   * Check if an instance exists (registered and not destroyed) - GameMaker's instance_exists()
+   */
+  public instanceExists(gameObject: GameObject | number): boolean {
+    const objectId = typeof gameObject === 'number' ? gameObject : gameObject.id
+    return this.gameObjects.has(objectId) && !this.pendingDestroyObjects.has(objectId)
   }
   
   /**
@@ -180,10 +405,145 @@ export class GameObjectManager {
   }
   
   /**
-   * Get objects within a certain distance of a position
+   * Deactivate instances touching (inside = true) or not touching (inside = false) a region
+   * GameMaker's instance_deactivate_region() - deactivated instances skip step, draw and collision
+   * Returns how many instances were deactivated
+   */
+  public deactivateRegion(left: number, top: number, width: number, height: number, inside: boolean = true, notme: GameObject | null = null): number {
+    const region: Bounds = { left, top, right: left + width, bottom: top + height }
+    return this.setActiveWhere(this.getAllActiveObjects(), false, obj =>
+      obj !== notme && this.isInRegion(obj, region) === inside
+    )
+  }
+  
+  /**
+   * Reactivate instances touching (inside = true) or not touching (inside = false) a region
+   * GameMaker's instance_activate_region() - returns how many instances were activated
+   */
+  public activateRegion(left: number, top: number, width: number, height: number, inside: boolean = true): number {
+    const region: Bounds = { left, top, right: left + width, bottom: top + height }
+    return this.setActiveWhere(this.getAllInactiveObjects(), true, obj => this.isInRegion(obj, region) === inside)
+  }
+  
+  /**
+   * Deactivate every instance, optionally keeping one (GameMaker's instance_deactivate_all(notme))
+   */
+  public deactivateAll(notme: GameObject | null = null): number {
+    return this.setActiveWhere(this.getAllActiveObjects(), false, obj => obj !== notme)
+  }
+  
+  /**
+   * Reactivate every instance (GameMaker's instance_activate_all())
+   */
+  public activateAll(): number {
+    return this.setActiveWhere(this.getAllInactiveObjects(), true, () => true)
+  }
+  
+  /**
+   * Deactivate one instance or every instance of a type (GameMaker's instance_deactivate_object())
+   */
+  public deactivateObject(target: ObjectFilter | GameObject, notme: GameObject | null = null): number {
+    return this.setActiveWhere(this.getAllActiveObjects(), false, obj =>
+      obj !== notme && GameObjectManager.matchesTarget(obj, target)
+    )
+  }
+  
+  /**
+   * Reactivate one instance or every instance of a type (GameMaker's instance_activate_object())
+   */
+  public activateObject(target: ObjectFilter | GameObject): number {
+    return this.setActiveWhere(this.getAllInactiveObjects(), true, obj => GameObjectManager.matchesTarget(obj, target))
+  }
+  
+  private setActiveWhere(objects: GameObject[], active: boolean, predicate: (gameObject: GameObject) => boolean): number {
+    let changed = 0
+    for (const obj of objects) {
+      if (this.pendingDestroyObjects.has(obj.id) || !predicate(obj)) continue
+      obj.active = active
+      changed++
+    }
+    return changed
+  }
+  
+  /**
+   * An instance is in a region when its collision bounds touch it (or its position, without a mask)
+   */
+  private isInRegion(gameObject: GameObject, region: Bounds): boolean {
+    const bounds = gameObject.getBounds()
+    if (bounds.right > bounds.left || bounds.bottom > bounds.top) {
+      return boundsOverlap(bounds, region)
+    }
+    return gameObject.x >= region.left && gameObject.x < region.right &&
+      gameObject.y >= region.top && gameObject.y < region.bottom
+  }
+  
+  private static matchesTarget(gameObject: GameObject, target: ObjectFilter | GameObject): boolean {
+    if (target instanceof GameObject) return gameObject === target
+    return typeof target === 'string' ? gameObject.isInstanceOf(target) : gameObject.hasTag(target.tag)
+  }
+  
+  /**
+   * Get the seeded random number service shared by all objects
+   */
+  public getRandom(): Random {
+    return this.random
+  }
+  
+  /**
+   * Set the render interpolation alpha (0-1) between the previous and current fixed step
+   * Called by the engine before the draw phase
+   */
+  public setInterpolationAlpha(alpha: number): void {
+    this.interpolationAlpha = alpha
+  }
+  
+  /**
+   * Get the render interpolation alpha used when drawing objects
+   */
+  public getInterpolationAlpha(): number {
+    return this.interpolationAlpha
+  }
+  
+  /**
+   * Route exceptions reported by objects to a handler (the engine's error policy)
+   */
+  public setErrorHandler(handler: ObjectErrorHandler | null): void {
+    this.errorHandler = handler
+  }
+  
+  /**
+   * Report an exception thrown by an object's event outside the engine's own loops
+   * (component onDestroy hooks); logged to the console when no handler is set
+   */
+  public reportObjectError(gameObject: GameObject, phase: string, error: unknown): void {
+    if (this.errorHandler) {
+      this.errorHandler(gameObject, phase, error)
+    } else {
+      console.error(`Error executing ${phase} on ${gameObject.objectType} #${gameObject.id}:`, error)
+    }
+  }
+  
+  /**
+   * Set how many fixed steps run per second (used for frames-per-second animation)
+   * Called by the engine with its target FPS
+   */
+  public setStepsPerSecond(stepsPerSecond: number): void {
+    this.stepsPerSecond = stepsPerSecond
+  }
+  
+  /**
+   * Get how many fixed steps run per second
+   */
+  public getStepsPerSecond(): number {
+    return this.stepsPerSecond
+  }
+  
+  /**
+   * Get objects within a certain distance of a position, optionally of a type or with a tag
+   * Inactive instances and instances pending destruction are skipped
    */
   public getObjectsNear(x: number, y: number, radius: number, objectType?: ObjectFilter): GameObject[] {
-    const objects = objectType && objectType !== 'all' ? this.getObjectsByType(objectType) : this.getAllObjects()
+    const objects = this.getQueryCandidates(objectType ?? 'all', null)
     
     return objects.filter(obj => {
       const distance = Math.sqrt(
@@ -194,10 +554,11 @@ export class GameObjectManager {
   }
   
   /**
-   * Get the nearest object to a position
+   * Get the nearest object to a position, optionally of a type or with a tag
+   * Inactive instances and instances pending destruction are skipped
    */
   public getNearestObject(x: number, y: number, objectType?: ObjectFilter): GameObject | null {
-    const objects = objectType && objectType !== 'all' ? this.getObjectsByType(objectType) : this.getAllObjects()
+    const objects = this.getQueryCandidates(objectType ?? 'all', null)
     
     if (objects.length === 0) return null
     
@@ -222,25 +583,250 @@ export class GameObjectManager {
   }
   
   /**
-   * Check for collisions between objects
+   * Get the first instance whose mask overlaps a world-space shape
+   * precise = false only compares bounding boxes; exclude skips one instance (GameMaker's notme)
+   */
+  public collisionShape(shape: CollisionShape, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject | null {
+    for (const obj of this.getQueryCandidates(objectType, exclude)) {
+      if (this.shapeHits(obj, shape, precise)) return obj
+    }
+    return null
+  }
+  
+  /**
+   * Get every instance whose mask overlaps a world-space shape, in instance order
+   */
+  public collisionShapeList(shape: CollisionShape, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject[] {
+    return this.getQueryCandidates(objectType, exclude).filter(obj => this.shapeHits(obj, shape, precise))
+  }
+  
+  /**
+   * GameMaker's collision_point() - first instance whose mask contains the point
+   */
+  public collisionPoint(x: number, y: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject | null {
+    for (const obj of this.getQueryCandidates(objectType, exclude)) {
+      if (this.pointHits(obj, x, y, precise)) return obj
+    }
+    return null
+  }
+  
+  /**
+   * GameMaker's collision_point_list()
+   */
+  public collisionPointList(x: number, y: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject[] {
+    return this.getQueryCandidates(objectType, exclude).filter(obj => this.pointHits(obj, x, y, precise))
+  }
+  
+  /**
+   * GameMaker's collision_rectangle()
+   */
+  public collisionRectangle(x1: number, y1: number, x2: number, y2: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject | null {
+    return this.collisionShape(rectangleShape(x1, y1, x2, y2), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's collision_rectangle_list()
+   */
+  public collisionRectangleList(x1: number, y1: number, x2: number, y2: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject[] {
+    return this.collisionShapeList(rectangleShape(x1, y1, x2, y2), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's collision_circle()
+   */
+  public collisionCircle(x: number, y: number, radius: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject | null {
+    return this.collisionShape(circleShape(x, y, radius), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's collision_circle_list()
+   */
+  public collisionCircleList(x: number, y: number, radius: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject[] {
+    return this.collisionShapeList(circleShape(x, y, radius), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's collision_line()
+   */
+  public collisionLine(x1: number, y1: number, x2: number, y2: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject | null {
+    return this.collisionShape(lineShape(x1, y1, x2, y2), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's collision_line_list()
+   */
+  public collisionLineList(x1: number, y1: number, x2: number, y2: number, objectType: ObjectFilter = 'all', precise: boolean = true, exclude: GameObject | null = null): GameObject[] {
+    return this.collisionShapeList(lineShape(x1, y1, x2, y2), objectType, precise, exclude)
+  }
+  
+  /**
+   * GameMaker's instance_position() - first instance whose mask covers the point
+   */
+  public instancePosition(x: number, y: number, objectType: ObjectFilter = 'all'): GameObject | null {
+    return this.collisionPoint(x, y, objectType)
+  }
+  
+  /**
+   * GameMaker's instance_position_list()
+   */
+  public instancePositionList(x: number, y: number, objectType: ObjectFilter = 'all'): GameObject[] {
+    return this.collisionPointList(x, y, objectType)
+  }
+  
+  /**
+   * Active, existing instances a collision or distance query can hit
+   */
+  private getQueryCandidates(objectType: ObjectFilter, exclude: GameObject | null): GameObject[] {
+    const objects = objectType === 'all' ? this.getAllActiveObjects() : this.getObjectsByType(objectType)
+    return objects.filter(obj =>
+      obj !== exclude && obj.active && !this.pendingDestroyObjects.has(obj.id)
+    )
+  }
+  
+  private shapeHits(gameObject: GameObject, shape: CollisionShape, precise: boolean): boolean {
+    const objectShape = gameObject.getCollisionShape()
+    if (!objectShape) return false
+    return precise ? shapesOverlap(objectShape, shape) : boundsOverlap(objectShape.bounds, shape.bounds)
+  }
+  
+  private pointHits(gameObject: GameObject, x: number, y: number, precise: boolean): boolean {
+    const shape = gameObject.getCollisionShape()
+    if (!shape) return false
+    if (precise) return shapeContainsPoint(shape, x, y)
+    
+    const bounds = shape.bounds
+    return x >= bounds.left && x < bounds.right && y >= bounds.top && y < bounds.bottom
+  }
+  
+  /**
+   * Set the spatial hash cell size used by the collision broadphase
+   * Roughly the size of a typical object works well
+   */
+  public setCollisionCellSize(cellSize: number): void {
+    this.spatialHash.setCellSize(cellSize)
+  }
+  
+  /**
+   * Enable or disable collision checks between two object types (e.g. skip Enemy-Enemy)
+   * Applies to descendant types as well
+   */
+  public setCollisionPairEnabled(typeA: string, typeB: string, enabled: boolean): void {
+    const key = GameObjectManager.collisionPairKey(typeA, typeB)
+    if (enabled) {
+      this.disabledCollisionPairs.delete(key)
+    } else {
+      this.disabledCollisionPairs.add(key)
+    }
+  }
+  
+  /**
+   * Check if collisions between two object types are checked
+   */
+  public isCollisionPairEnabled(typeA: string, typeB: string): boolean {
+    if (this.disabledCollisionPairs.size === 0) return true
+    
+    // Disabling a pair of parent types also disables their descendants
+    const chainB = GameObject.getTypeChain(typeB)
+    for (const ancestorA of GameObject.getTypeChain(typeA)) {
+      for (const ancestorB of chainB) {
+        if (this.disabledCollisionPairs.has(GameObjectManager.collisionPairKey(ancestorA, ancestorB))) {
+          return false
+        }
+      }
+    }
+    return true
+  }
+  
+  /**
+   * Find colliding objects using a spatial hash broadphase
+   * Returns, for each object in the given order, the objects it collides with (same order)
+   */
+  public findCollisions(objects: GameObject[]): Map<GameObject, GameObject[]> {
+    const collisions: Map<GameObject, GameObject[]> = new Map()
+    const shapes: Map<GameObject, CollisionShape> = new Map()
+    const order: Map<GameObject, number> = new Map()
+    
+    this.spatialHash.clear()
+    objects.forEach((obj, index) => {
+      if (!obj.solid || !obj.active) return
+      
+      const shape = obj.getCollisionShape()
+      if (!shape) return
+      
+      shapes.set(obj, shape)
+      order.set(obj, index)
+      this.spatialHash.insert(obj, shape.bounds)
+    })
+    
+    for (const [obj, shape] of shapes) {
+      const index = order.get(obj)!
+      for (const other of this.spatialHash.query(shape.bounds)) {
+        // Check each pair once
+        if (order.get(other)! <= index) continue
+        if (!this.isCollisionPairEnabled(obj.objectType, other.objectType)) continue
+        
+        if (shapesOverlap(shape, shapes.get(other)!)) {
+          this.addCollision(collisions, obj, other)
+          this.addCollision(collisions, other, obj)
+        }
+      }
+    }
+    
+    // GameMaker order - each instance sees the others in instance order
+    for (const others of collisions.values()) {
+      others.sort((a, b) => order.get(a)! - order.get(b)!)
+    }
+    
+    return collisions
+  }
+  
+  /**
+   * Run an object's collision event against another object
+   */
+  public dispatchCollision(gameObject: GameObject, other: GameObject): void {
+    gameObject.onCollision(other)
+    gameObject.executeEventSync(GameEvent.COLLISION, { other })
+  }
+  
+  /**
+   * Check for collisions between all active objects and dispatch collision events
    */
   public checkCollisions(): void {
-    const solidObjects = this.getAllObjects().filter(obj => obj.solid && obj.active)
+    const objects = this.getAllActiveObjects()
+    const collisions = this.findCollisions(objects)
     
-    for (let i = 0; i < solidObjects.length; i++) {
-      for (let j = i + 1; j < solidObjects.length; j++) {
-        const obj1 = solidObjects[i]
-        const obj2 = solidObjects[j]
+    for (const gameObject of objects) {
+      const others = collisions.get(gameObject)
+      if (!others) continue
+      
+      for (const other of others) {
+        // Earlier collision events may have destroyed either object - only
+        // the instance's own destruction ends its remaining collisions
+        if (!this.instanceExists(gameObject)) break
+        if (!this.instanceExists(other)) continue
         
-        if (obj1.collidesWith(obj2)) {
-          // Queue collision events for both objects
-          this.eventManager.queueObjectEvent(obj1, GameEvent.COLLISION, { other: obj2 })
-          this.eventManager.queueObjectEvent(obj2, GameEvent.COLLISION, { other: obj1 })
+        try {
+          this.dispatchCollision(gameObject, other)
+        } catch (error) {
+          console.error(`Error executing onCollision on ${gameObject.objectType}:`, error)
         }
       }
     }
   }
   
+  private addCollision(collisions: Map<GameObject, GameObject[]>, gameObject: GameObject, other: GameObject): void {
+    const others = collisions.get(gameObject)
+    if (others) {
+      others.push(other)
+    } else {
+      collisions.set(gameObject, [other])
+    }
+  }
+  
+  private static collisionPairKey(typeA: string, typeB: string): string {
+    return typeA < typeB ? `${typeA}|${typeB}` : `${typeB}|${typeA}`
+  }
+  
   /**
    * Update all game objects
    */
@@ -304,24 +890,50 @@ export class GameObjectManager {
   }
   
   /**
-   * Clean up objects marked for destruction
+   * Clean up objects marked for destruction (called by the engine at the end of each frame)
+   * Returns the objects that were removed
    */
-  private cleanupDestroyedObjects(): void {
-    for (const gameObject of this.pendingDestroyObjects.values()) {
-      // Remove from type collection
-      const typeSet = this.objectsByType.get(gameObject.objectType)
-      if (typeSet) {
-        typeSet.delete(gameObject)
-        if (typeSet.size === 0) {
-          this.objectsByType.delete(gameObject.objectType)
-        }
-      }
+  public cleanupDestroyedObjects(): GameObject[] {
+    const removed = Array.from(this.pendingDestroyObjects.values())
+    for (const gameObject of removed) {
+      this.removeFromCollections(gameObject)
       
-      // Remove from main collection
-      this.gameObjects.delete(gameObject.id)
+      // Destroyed pooled instances go back to their pool
+      const pool = this.pools.get(gameObject.objectType)
+      if (pool?.isInUse(gameObject)) {
+        pool.give(gameObject)
+      }
     }
     
     this.pendingDestroyObjects.clear()
+    return removed
+  }
+  
+  /**
+   * Remove an object from every collection, freeing its id
+   */
+  private removeFromCollections(gameObject: GameObject): void {
+    // Remove from type collection
+    const typeSet = this.objectsByType.get(gameObject.objectType)
+    if (typeSet) {
+      typeSet.delete(gameObject)
+      if (typeSet.size === 0) {
+        this.objectsByType.delete(gameObject.objectType)
+      }
+    }
+    
+    for (const tag of gameObject.getTags()) {
+      this.removeFromTagIndex(gameObject, tag)
+    }
+    for (const component of gameObject.getComponents(Component)) {
+      this.indexComponent(component, false)
+    }
+    
+    // Remove from main collections
+    this.gameObjects.delete(gameObject.id)
+    this.activeGameObjects.delete(gameObject.id)
+    this.inactiveGameObjects.delete(gameObject.id)
+    this.pendingDestroyObjects.delete(gameObject.id)
   }
   
   /**
@@ -338,16 +950,29 @@ export class GameObjectManager {
     this.inactiveGameObjects.clear()
     this.pendingDestroyObjects.clear()
     this.objectsByType.clear()
+    this.objectsByTag.clear()
+    this.componentsByType.clear()
+    
+    // Cleared pooled instances are gone, not released
+    for (const pool of this.pools.values()) {
+      pool.forgetInUse()
+    }
   }
   
   /**
-   * Get count of objects of a specific type
+   * Get count of objects of a specific type (including descendant types) or with a tag
    */
   public getObjectCount(objectType?: ObjectFilter): number {
     if (!objectType || objectType === 'all') {
       return this.gameObjects.size
     }
-    const typeSet = this.objectsByType.get(objectType as string)
-    return typeSet ? typeSet.size : 0
+    if (typeof objectType !== 'string') {
+      return this.getTagCount(objectType.tag)
+    }
+    let count = this.objectsByType.get(objectType as string)?.size ?? 0
+    for (const descendantType of GameObject.getDescendantTypes(objectType)) {
+      count += this.objectsByType.get(descendantType)?.size ?? 0
+    }
+    return count
   }
 }
@@ -0,0 +1,39 @@
+import type { Rapid } from 'rapid-render'
+import { DrawingSystem } from './DrawingSystem.ts'
+import type { Sprite } from './Sprite.ts'
+
+/**
+ * No-op drawing system used when the engine runs in headless mode
+ * Keeps the DrawingSystem API so draw events can run unchanged without a canvas
+ */
+export class HeadlessDrawingSystem extends DrawingSystem {
+  constructor() {
+    // There is no renderer in headless mode - every method that would touch it is overridden below
+    super(null as unknown as Rapid)
+  }
+
+  public clearFrame(): void {}
+
+  public drawSpriteFromSprite(_sprite: Sprite, _x: number, _y: number, _frame: number = 0, _scaleX: number = 1, _scaleY: number = 1, _rotation: number = 0, _alpha: number = 1): void {}
+
+  public drawSprite(_x: number, _y: number, _scaleX: number = 1, _scaleY: number = 1, _rotation: number = 0, _color: number = 0xFFFFFF, _alpha: number = 1): void {}
+
+  public drawLine(_x1: number, _y1: number, _x2: number, _y2: number, _color: number = 0xFFFFFF, _width: number = 1): void {}
+
+  public drawRectangle(_x1: number, _y1: number, _x2: number, _y2: number, _filled: boolean = true, _color: number = 0xFFFFFF, _alpha: number = 1): void {}
+
+  public drawCircle(_x: number, _y: number, _radius: number, _filled: boolean = true, _color: number = 0xFFFFFF, _alpha: number = 1): void {}
+
+  public drawText(_x: number, _y: number, _text: string, _color: number = 0xFFFFFF, _fontSize: number = 12, _fontFamily: string = 'Arial'): void {}
+
+  public drawArrow(_x1: number, _y1: number, _x2: number, _y2: number, _size: number = 10, _color: number = 0xFFFFFF): void {}
+
+  public drawHealthbar(_x1: number, _y1: number, _x2: number, _y2: number, _amount: number, _backColor: number = 0x333333, _minColor: number = 0xFF0000, _maxColor: number = 0x00FF00): void {}
+
+  /**
+   * Headless mode has no renderer
+   */
+  public getRapidRenderer(): Rapid {
+    throw new Error('Rapid renderer is not available in headless mode')
+  }
+}
@@ -1,7 +1,22 @@
+/**
+ * Snapshot of all input state for a single step (used for recording and replay)
+ */
+export interface InputState {
+  keysPressed: string[]
+  keysJustPressed: string[]
+  keysJustReleased: string[]
+  mouseX: number
+  mouseY: number
+  mouseButtons: number[]
+  mouseJustPressed: number[]
+  mouseJustReleased: number[]
+}
+
 /**
  * Input manager for handling keyboard and mouse events
  * - Canvas-aware mouse coordinates (accounts for CSS scaling/DPI)
  * - Proper listener cleanup via dispose()
+ * - Detached mode (no canvas) for headless runs, fed through pressKey()/setMousePosition()/etc.
  */
 export class InputManager {
   private keysPressed: Set<string> = new Set()
@@ -13,33 +28,29 @@ export class InputManager {
   private mouseJustPressed: Set<number> = new Set()
   private mouseJustReleased: Set<number> = new Set()
 
-  private readonly canvas: HTMLCanvasElement
+  private readonly canvas: HTMLCanvasElement | null
 
   // Bound listeners for add/remove symmetry
   private onKeyDown = (e: KeyboardEvent) => {
     if (this.preventDefaultKeys.has(e.code)) e.preventDefault()
-    if (!this.keysPressed.has(e.code)) this.keysJustPressed.add(e.code)
-    this.keysPressed.add(e.code)
+    this.pressKey(e.code)
   }
   private onKeyUp = (e: KeyboardEvent) => {
     if (this.preventDefaultKeys.has(e.code)) e.preventDefault()
-    this.keysPressed.delete(e.code)
-    this.keysJustReleased.add(e.code)
+    this.releaseKey(e.code)
   }
   private onMouseMove = (e: MouseEvent) => {
+    if (!this.canvas) return
     const rect = this.canvas.getBoundingClientRect()
     const scaleX = this.canvas.width / rect.width
     const scaleY = this.canvas.height / rect.height
-    this.mouseX = (e.clientX - rect.left) * scaleX
-    this.mouseY = (e.clientY - rect.top) * scaleY
+    this.setMousePosition((e.clientX - rect.left) * scaleX, (e.clientY - rect.top) * scaleY)
   }
   private onMouseDown = (e: MouseEvent) => {
-    this.mouseJustPressed.add(e.button)
-    this.mouseButtons.add(e.button)
+    this.pressMouseButton(e.button)
   }
   private onMouseUp = (e: MouseEvent) => {
-    this.mouseButtons.delete(e.button)
-    this.mouseJustReleased.add(e.button)
+    this.releaseMouseButton(e.button)
   }
 
   // Keys to prevent default for (configurable later if needed)
@@ -48,9 +59,14 @@ export class InputManager {
     'ArrowUp','ArrowDown','ArrowLeft','ArrowRight'
   ])
 
-  constructor(canvas: HTMLCanvasElement) {
+  /**
+   * @param canvas - Canvas used for mouse coordinates, or null for a detached input source (headless mode)
+   */
+  constructor(canvas: HTMLCanvasElement | null) {
     this.canvas = canvas
-    this.setupEventListeners()
+    if (this.canvas) {
+      this.setupEventListeners()
+    }
   }
 
   private setupEventListeners(): void {
@@ -63,6 +79,7 @@ export class InputManager {
 
   /** Remove all event listeners */
   public dispose(): void {
+    if (!this.canvas) return
     window.removeEventListener('keydown', this.onKeyDown as any)
     window.removeEventListener('keyup', this.onKeyUp as any)
     window.removeEventListener('mousemove', this.onMouseMove as any)
@@ -82,6 +99,57 @@ export class InputManager {
   public isMouseButtonJustPressed(button: number): boolean { return this.mouseJustPressed.has(button) }
   public isMouseButtonJustReleased(button: number): boolean { return this.mouseJustReleased.has(button) }
 
+  /** Check if this input source is detached from the DOM (headless mode) */
+  public isDetached(): boolean { return this.canvas === null }
+
+  // Input injection (used by the DOM listeners, and directly when detached)
+  public pressKey(key: string): void {
+    if (!this.keysPressed.has(key)) this.keysJustPressed.add(key)
+    this.keysPressed.add(key)
+  }
+  public releaseKey(key: string): void {
+    this.keysPressed.delete(key)
+    this.keysJustReleased.add(key)
+  }
+  public setMousePosition(x: number, y: number): void {
+    this.mouseX = x
+    this.mouseY = y
+  }
+  public pressMouseButton(button: number): void {
+    this.mouseJustPressed.add(button)
+    this.mouseButtons.add(button)
+  }
+  public releaseMouseButton(button: number): void {
+    this.mouseButtons.delete(button)
+    this.mouseJustReleased.add(button)
+  }
+
+  /** Capture the full input state */
+  public getState(): InputState {
+    return {
+      keysPressed: Array.from(this.keysPressed),
+      keysJustPressed: Array.from(this.keysJustPressed),
+      keysJustReleased: Array.from(this.keysJustReleased),
+      mouseX: this.mouseX,
+      mouseY: this.mouseY,
+      mouseButtons: Array.from(this.mouseButtons),
+      mouseJustPressed: Array.from(this.mouseJustPressed),
+      mouseJustReleased: Array.from(this.mouseJustReleased)
+    }
+  }
+
+  /** Replace the full input state (input playback) */
+  public setState(state: InputState): void {
+    this.keysPressed = new Set(state.keysPressed)
+    this.keysJustPressed = new Set(state.keysJustPressed)
+    this.keysJustReleased = new Set(state.keysJustReleased)
+    this.mouseX = state.mouseX
+    this.mouseY = state.mouseY
+    this.mouseButtons = new Set(state.mouseButtons)
+    this.mouseJustPressed = new Set(state.mouseJustPressed)
+    this.mouseJustReleased = new Set(state.mouseJustReleased)
+  }
+
   /** Clear just-pressed/released states (call at end of frame) */
   public endFrame(): void {
     this.keysJustPressed.clear()
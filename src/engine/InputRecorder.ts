@@ -0,0 +1,106 @@
+import type { InputManager, InputState } from './InputManager'
+import type { Random } from './Random.ts'
+
+/**
+ * A recorded run: the random state at the start plus the input seen by every fixed step
+ * Plain data, so it can be saved as JSON and attached to bug reports
+ */
+export interface InputRecording {
+  randomState: number
+  frames: InputState[]
+}
+
+/**
+ * Records InputManager state once per fixed step and plays it back through the same API
+ * Replaying a recording from the same starting world reproduces the run exactly,
+ * as long as game logic draws its randomness from the engine's Random service
+ */
+export class InputRecorder {
+  private inputManager: InputManager
+  private random: Random
+  private mode: 'idle' | 'recording' | 'playback' = 'idle'
+  private frames: InputState[] = []
+  private randomState: number = 0
+  private playbackIndex: number = 0
+
+  constructor(inputManager: InputManager, random: Random) {
+    this.inputManager = inputManager
+    this.random = random
+  }
+
+  /**
+   * Start recording input from the next fixed step
+   */
+  public startRecording(): void {
+    this.mode = 'recording'
+    this.frames = []
+    this.randomState = this.random.getState()
+    console.log('⏺️ Input recording started')
+  }
+
+  /**
+   * Stop recording and return the recording
+   */
+  public stopRecording(): InputRecording {
+    if (this.mode === 'recording') {
+      this.mode = 'idle'
+      console.log(`⏹️ Input recording stopped after ${this.frames.length} steps`)
+    }
+    return { randomState: this.randomState, frames: this.frames }
+  }
+
+  /**
+   * Play back a recording from the next fixed step
+   * Restores the random state so the run matches the recorded one
+   */
+  public startPlayback(recording: InputRecording): void {
+    this.mode = 'playback'
+    this.frames = recording.frames
+    this.playbackIndex = 0
+    this.random.setState(recording.randomState)
+    console.log(`▶️ Input playback started (${recording.frames.length} steps)`)
+  }
+
+  /**
+   * Stop playback and release all recorded input
+   */
+  public stopPlayback(): void {
+    if (this.mode !== 'playback') return
+
+    this.mode = 'idle'
+    this.inputManager.setState({
+      keysPressed: [],
+      keysJustPressed: [],
+      keysJustReleased: [],
+      mouseX: this.inputManager.getMouseX(),
+      mouseY: this.inputManager.getMouseY(),
+      mouseButtons: [],
+      mouseJustPressed: [],
+      mouseJustReleased: []
+    })
+    console.log('⏹️ Input playback stopped')
+  }
+
+  public isRecording(): boolean {
+    return this.mode === 'recording'
+  }
+
+  public isPlaying(): boolean {
+    return this.mode === 'playback'
+  }
+
+  /**
+   * Capture or apply input for one fixed step (called by the engine before objects step)
+   */
+  public processStep(): void {
+    if (this.mode === 'recording') {
+      this.frames.push(this.inputManager.getState())
+    } else if (this.mode === 'playback') {
+      if (this.playbackIndex < this.frames.length) {
+        this.inputManager.setState(this.frames[this.playbackIndex++])
+      } else {
+        this.stopPlayback()
+      }
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { GameObject, HelperSnapshot } from './GameObject'
+import { copyValue, restoreValue } from './StateCopy.ts'
+
+/**
+ * Creates a new pooled instance - () => new Bullet()
+ */
+export type PoolFactory<out T extends GameObject = GameObject> = () => T
+
+export interface PoolOptions {
+  /** Most released instances kept for reuse; extra releases are dropped (default: 256) */
+  maxSize?: number
+  /** Instances created up front so the first acquires don't allocate (default: 0) */
+  prewarm?: number
+}
+
+/**
+ * Usage counters of one pool, shown in debug output
+ */
+export interface PoolStats {
+  /** Instances created by the factory */
+  created: number
+  /** Acquires served by a released instance */
+  reused: number
+  /** Acquired and not yet released */
+  inUse: number
+  /** Released and waiting to be reused */
+  available: number
+  /** Releases dropped because the pool was full */
+  discarded: number
+}
+
+// Fields that identify the instance and are never rewound
+const PRESERVED_FIELDS = new Set<string>(['_id', 'objectType'])
+
+// Owner-bound helpers, rewound in place by GameObject.restoreHelpers()
+const HELPER_FIELDS = new Set<string>(['animator', 'stateMachine', 'components'])
+
+// An instance's state right after construction
+interface InitialState<T extends GameObject> {
+  fields: Record<string, unknown>
+  helpers: HelperSnapshot<T>
+}
+
+/**
+ * Released GameObjects of one type, waiting to be reused
+ * Each instance's fields are recorded right after construction so a reused
+ * instance can be rewound to exactly that state - including subclass fields -
+ * refilling its Maps and arrays in place instead of allocating new ones.
+ * Its animator, state machine and components are rewound by their own reset();
+ * collision masks are immutable and shared, so restoring the reference is enough
+ */
+export class ObjectPool<out T extends GameObject = GameObject> {
+  public readonly objectType: string
+  private factory: PoolFactory<T>
+  private maxSize: number
+  private available: T[] = []
+  private inUse: Set<T> = new Set()
+  private initialStates: WeakMap<T, InitialState<T>> = new WeakMap()
+  private created: number = 0
+  private reused: number = 0
+  private discarded: number = 0
+
+  constructor(objectType: string, factory: PoolFactory<T>, options: PoolOptions = {}) {
+    this.objectType = objectType
+    this.factory = factory
+    this.maxSize = Math.max(0, options.maxSize ?? 256)
+
+    for (let i = 0; i < (options.prewarm ?? 0) && this.available.length < this.maxSize; i++) {
+      this.available.push(this.create())
+    }
+  }
+
+  /**
+   * Take an instance in its constructor state, reusing a released one (with a new id) if possible
+   */
+  public take(): T {
+    const instance = this.available.pop()
+    if (instance) {
+      this.reset(instance)
+      // Stale ids of the released instance must not find the reused one
+      instance.renewId()
+      this.reused++
+    }
+
+    const taken = instance ?? this.create()
+    this.inUse.add(taken)
+    return taken
+  }
+
+  /**
+   * Return an acquired instance; false if it is not in use (already released)
+   */
+  public give(instance: T): boolean {
+    if (!this.inUse.delete(instance)) return false
+
+    if (this.available.length < this.maxSize) {
+      this.available.push(instance)
+    } else {
+      this.discarded++
+    }
+    return true
+  }
+
+  /**
+   * Check if an instance was created by this pool
+   */
+  public owns(instance: GameObject): boolean {
+    return this.initialStates.has(instance as T)
+  }
+
+  public isInUse(instance: GameObject): boolean {
+    return this.inUse.has(instance as T)
+  }
+
+  /**
+   * Stop tracking acquired instances (they were removed without being released)
+   */
+  public forgetInUse(): void {
+    this.discarded += this.inUse.size
+    this.inUse.clear()
+  }
+
+  public getStats(): PoolStats {
+    return {
+      created: this.created,
+      reused: this.reused,
+      inUse: this.inUse.size,
+      available: this.available.length,
+      discarded: this.discarded
+    }
+  }
+
+  private create(): T {
+    const instance = this.factory()
+    if (instance.objectType !== this.objectType) {
+      throw new Error(`Pool for '${this.objectType}' created an instance of '${instance.objectType}'`)
+    }
+
+    const fields = instance as Record<string, unknown>
+    const state: InitialState<T> = { fields: {}, helpers: instance.snapshotHelpers() }
+    for (const key of Object.keys(instance)) {
+      if (!PRESERVED_FIELDS.has(key) && !HELPER_FIELDS.has(key)) {
+        state.fields[key] = copyValue(fields[key])
+      }
+    }
+    this.initialStates.set(instance, state)
+    this.created++
+    return instance
+  }
+
+  private reset(instance: T): void {
+    const state = this.initialStates.get(instance)!
+    const fields = instance as Record<string, unknown>
+
+    // Fields added after construction didn't exist in the constructor state
+    for (const key of Object.keys(instance)) {
+      if (!PRESERVED_FIELDS.has(key) && !HELPER_FIELDS.has(key) && !(key in state.fields)) {
+        delete fields[key]
+      }
+    }
+    for (const key of Object.keys(state.fields)) {
+      fields[key] = restoreValue(fields[key], state.fields[key])
+    }
+    instance.restoreHelpers(state.helpers)
+  }
+}
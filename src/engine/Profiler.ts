@@ -0,0 +1,236 @@
+import type { DrawingSystem } from './DrawingSystem.ts'
+
+/**
+ * Time spent by one object type in one phase during a frame
+ */
+export interface ProfilerSample {
+  objectType: string
+  phase: string
+  time: number
+  calls: number
+}
+
+/**
+ * Everything the profiler recorded for a single rendered frame
+ */
+export interface ProfilerFrameCapture {
+  frame: number
+  frameTime: number
+  phases: Record<string, number>
+  samples: ProfilerSample[]
+}
+
+/**
+ * Overlay sort options
+ */
+export type ProfilerSortKey = 'time' | 'calls' | 'average' | 'name'
+
+const SORT_KEYS: ProfilerSortKey[] = ['time', 'calls', 'average', 'name']
+
+/**
+ * Opt-in per-phase, per-object-type profiler
+ * The engine times every virtual event call while enabled; results can be shown
+ * as an on-screen overlay (averaged over recent frames) or exported as JSON
+ */
+export class Profiler {
+  private enabled: boolean = false
+  private overlayVisible: boolean = false
+  private sortKey: ProfilerSortKey = 'time'
+  private historySize: number = 60
+
+  // Current frame
+  private frame: number = 0
+  private frameStart: number = 0
+  private samples: Map<string, ProfilerSample> = new Map()
+  private phases: Map<string, number> = new Map()
+
+  // Completed frames, newest last
+  private history: ProfilerFrameCapture[] = []
+
+  // Overlay layout
+  private overlayX: number = 20
+  private overlayY: number = 100
+  private overlayRows: number = 12
+
+  /**
+   * Start recording
+   */
+  public enable(): void {
+    this.enabled = true
+  }
+
+  /**
+   * Stop recording and discard collected data
+   */
+  public disable(): void {
+    this.enabled = false
+    this.samples.clear()
+    this.phases.clear()
+    this.history = []
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * Show the on-screen breakdown (enables recording)
+   */
+  public showOverlay(): void {
+    this.enable()
+    this.overlayVisible = true
+  }
+
+  public hideOverlay(): void {
+    this.overlayVisible = false
+  }
+
+  public isOverlayVisible(): boolean {
+    return this.overlayVisible
+  }
+
+  /**
+   * Choose how overlay rows are sorted
+   */
+  public setSortKey(key: ProfilerSortKey): void {
+    this.sortKey = key
+  }
+
+  public getSortKey(): ProfilerSortKey {
+    return this.sortKey
+  }
+
+  /**
+   * Switch the overlay to the next sort key
+   */
+  public cycleSortKey(): ProfilerSortKey {
+    this.sortKey = SORT_KEYS[(SORT_KEYS.indexOf(this.sortKey) + 1) % SORT_KEYS.length]
+    return this.sortKey
+  }
+
+  /**
+   * Mark the start of a rendered frame (called by the engine)
+   */
+  public beginFrame(): void {
+    if (!this.enabled) return
+
+    this.frameStart = performance.now()
+    this.samples.clear()
+    this.phases.clear()
+  }
+
+  /**
+   * Record the time one object spent in a phase (called by the engine)
+   */
+  public record(phase: string, objectType: string, time: number): void {
+    const key = `${phase}:${objectType}`
+    const sample = this.samples.get(key)
+    if (sample) {
+      sample.time += time
+      sample.calls++
+    } else {
+      this.samples.set(key, { objectType, phase, time, calls: 1 })
+    }
+  }
+
+  /**
+   * Record the total time of a phase across all objects (called by the engine)
+   */
+  public recordPhase(phase: string, time: number): void {
+    this.phases.set(phase, (this.phases.get(phase) ?? 0) + time)
+  }
+
+  /**
+   * Mark the end of a rendered frame and store its capture (called by the engine)
+   */
+  public endFrame(): void {
+    if (!this.enabled) return
+
+    this.history.push({
+      frame: this.frame++,
+      frameTime: performance.now() - this.frameStart,
+      phases: Object.fromEntries(this.phases),
+      samples: Array.from(this.samples.values(), sample => ({ ...sample }))
+    })
+
+    if (this.history.length > this.historySize) {
+      this.history.shift()
+    }
+  }
+
+  /**
+   * Get the most recent complete frame capture
+   */
+  public getLastCapture(): ProfilerFrameCapture | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1] : null
+  }
+
+  /**
+   * Export the most recent frame capture as JSON
+   */
+  public exportCapture(): string {
+    return JSON.stringify(this.getLastCapture(), null, 2)
+  }
+
+  /**
+   * Get samples averaged per frame over the recent history, sorted by the current sort key
+   */
+  public getSortedSamples(): ProfilerSample[] {
+    const totals: Map<string, ProfilerSample> = new Map()
+
+    for (const capture of this.history) {
+      for (const sample of capture.samples) {
+        const key = `${sample.phase}:${sample.objectType}`
+        const total = totals.get(key)
+        if (total) {
+          total.time += sample.time
+          total.calls += sample.calls
+        } else {
+          totals.set(key, { ...sample })
+        }
+      }
+    }
+
+    const frames = Math.max(1, this.history.length)
+    const averaged = Array.from(totals.values(), sample => ({
+      ...sample,
+      time: sample.time / frames,
+      calls: sample.calls / frames
+    }))
+
+    switch (this.sortKey) {
+      case 'time':
+        return averaged.sort((a, b) => b.time - a.time)
+      case 'calls':
+        return averaged.sort((a, b) => b.calls - a.calls)
+      case 'average':
+        return averaged.sort((a, b) => b.time / b.calls - a.time / a.calls)
+      case 'name':
+        return averaged.sort((a, b) => a.objectType.localeCompare(b.objectType) || a.phase.localeCompare(b.phase))
+    }
+  }
+
+  /**
+   * Draw the breakdown overlay (called by the engine after the draw phase)
+   */
+  public drawOverlay(drawingSystem: DrawingSystem): void {
+    const rows = this.getSortedSamples().slice(0, this.overlayRows)
+    const lineHeight = 14
+    const width = 360
+    const height = (rows.length + 3) * lineHeight + 8
+    const x = this.overlayX
+    const y = this.overlayY
+
+    drawingSystem.drawRectangle(x, y, x + width, y + height, true, 0x000000, 0.75)
+
+    const capture = this.getLastCapture()
+    const frameTime = capture ? capture.frameTime.toFixed(2) : '-'
+    drawingSystem.drawText(x + 4, y + 4, `Profiler - frame ${frameTime}ms - sort: ${this.sortKey}`, 0xFFFF00)
+    drawingSystem.drawText(x + 4, y + 4 + lineHeight, 'object type        phase          ms/frame   calls', 0xAAAAAA)
+
+    rows.forEach((sample, index) => {
+      const line = `${sample.objectType.padEnd(18).slice(0, 18)} ${sample.phase.padEnd(14)} ${sample.time.toFixed(3).padStart(8)} ${sample.calls.toFixed(0).padStart(7)}`
+      drawingSystem.drawText(x + 4, y + 4 + (index + 2) * lineHeight, line, 0xFFFFFF)
+    })
+  }
+}
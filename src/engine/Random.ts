@@ -0,0 +1,111 @@
+/**
+ * Seeded random number generator with GameMaker-style helpers
+ * (random, irandom, random_range, irandom_range, choose, random_set_seed)
+ *
+ * Uses mulberry32, so the whole generator state is a single 32-bit integer
+ * that can be saved with getState() and restored with setState()
+ */
+export class Random {
+  private seed: number = 0
+  private state: number = 0
+
+  constructor(seed?: number) {
+    this.setSeed(seed ?? Random.generateSeed())
+  }
+
+  /**
+   * Create an unpredictable 32-bit seed
+   */
+  public static generateSeed(): number {
+    return (Math.random() * 0x100000000) >>> 0
+  }
+
+  /**
+   * Seed the generator - GameMaker's random_set_seed()
+   */
+  public setSeed(seed: number): void {
+    this.seed = seed >>> 0
+    this.state = this.seed
+  }
+
+  /**
+   * Get the seed the generator was last seeded with - GameMaker's random_get_seed()
+   */
+  public getSeed(): number {
+    return this.seed
+  }
+
+  /**
+   * Reseed with an unpredictable seed and return it - GameMaker's randomize()
+   */
+  public randomize(): number {
+    const seed = Random.generateSeed()
+    this.setSeed(seed)
+    return seed
+  }
+
+  /**
+   * Get the current generator state (for save games and replays)
+   */
+  public getState(): number {
+    return this.state
+  }
+
+  /**
+   * Restore a state previously returned by getState()
+   */
+  public setState(state: number): void {
+    this.state = state >>> 0
+  }
+
+  /**
+   * Next random value in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  /**
+   * Random real number in [0, n) - GameMaker's random()
+   */
+  public random(n: number = 1): number {
+    return this.next() * n
+  }
+
+  /**
+   * Random real number in [min, max) - GameMaker's random_range()
+   */
+  public randomRange(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Random integer from 0 to n inclusive - GameMaker's irandom()
+   */
+  public irandom(n: number): number {
+    return Math.floor(this.next() * (Math.floor(n) + 1))
+  }
+
+  /**
+   * Random integer from min to max inclusive - GameMaker's irandom_range()
+   */
+  public irandomRange(min: number, max: number): number {
+    const low = Math.ceil(Math.min(min, max))
+    const high = Math.floor(Math.max(min, max))
+    return low + Math.floor(this.next() * (high - low + 1))
+  }
+
+  /**
+   * Pick one of the given values at random - GameMaker's choose()
+   */
+  public choose<T>(...values: T[]): T {
+    if (values.length === 0) {
+      throw new Error('choose() requires at least one value')
+    }
+    return values[Math.floor(this.next() * values.length)]
+  }
+}
@@ -20,8 +20,10 @@ export interface RoomConfig {
   onCreate?: EventScript
   /** Room step script (called every frame) */
   onStep?: EventScript
-  /** Room draw script (called during rendering) */
+  /** Room draw script (called during rendering, before instances draw) */
   onDraw?: EventScript
+  /** Room draw end script (called during rendering, after instances draw) */
+  onDrawEnd?: EventScript
   /** Room cleanup script */
   onDestroy?: EventScript
 }
@@ -91,6 +93,9 @@ export class Room {
     if (config.onDraw) {
       this.eventScripts.set(GameEvent.DRAW, config.onDraw)
     }
+    if (config.onDrawEnd) {
+      this.eventScripts.set(GameEvent.DRAW_END, config.onDrawEnd)
+    }
     if (config.onDestroy) {
       this.eventScripts.set(GameEvent.DESTROY, config.onDestroy)
     }
@@ -171,21 +176,46 @@ export class Room {
   }
 
   /**
-   * Execute room step logic (called every frame when active)
+   * Execute room step logic (called every step by the game loop, before instances step)
+   */
+  public step(): void {
+    if (!this.isActive) return
+    
+    this.executeEventSync(GameEvent.STEP)
+  }
+
+  /**
+   * Execute room draw logic (called during rendering, before instances draw)
    */
-  public async step(): Promise<void> {
+  public draw(): void {
     if (!this.isActive) return
     
-    await this.executeEvent(GameEvent.STEP)
+    this.executeEventSync(GameEvent.DRAW)
   }
 
   /**
-   * Execute room draw logic (called during rendering when active)
+   * Execute room draw end logic (called during rendering, after instances draw)
    */
-  public async draw(): Promise<void> {
+  public drawEnd(): void {
     if (!this.isActive) return
     
-    await this.executeEvent(GameEvent.DRAW)
+    this.executeEventSync(GameEvent.DRAW_END)
+  }
+
+  /**
+   * Called when the room starts, after its objects have been added to the engine
+   * Runs just before the global 'room_start' event. Override in subclasses
+   */
+  public onRoomStart(): void | Promise<void> {
+    // Override in subclasses
+  }
+
+  /**
+   * Called when the room ends, before its objects are removed from the engine
+   * Runs just before the global 'room_end' event. Override in subclasses
+   */
+  public onRoomEnd(): void | Promise<void> {
+    // Override in subclasses
   }
 
   /**
@@ -268,18 +298,37 @@ export class Room {
   public async executeEvent(event: string, eventData?: any): Promise<void> {
     const script = this.eventScripts.get(event)
     if (script) {
-      // Create a dummy game object for room events (rooms don't inherit from GameObject)
-      const roomAsGameObject = {
-        id: -1,
-        x: 0,
-        y: 0,
-        room: this
-      } as any
-      
-      await script(roomAsGameObject, eventData)
+      await script(this.getScriptTarget(), eventData)
+    }
+  }
+
+  /**
+   * Execute a room event script synchronously (for the game loop)
+   */
+  public executeEventSync(event: string, eventData?: any): void {
+    const script = this.eventScripts.get(event)
+    if (script) {
+      try {
+        // Call script synchronously - if it returns a Promise, we ignore it
+        script(this.getScriptTarget(), eventData)
+      } catch (error) {
+        console.error(`Error executing ${event} event for room ${this.name}:`, error)
+      }
     }
   }
 
+  /**
+   * Create a dummy game object for room events (rooms don't inherit from GameObject)
+   */
+  private getScriptTarget(): GameObject {
+    return {
+      id: -1,
+      x: 0,
+      y: 0,
+      room: this
+    } as any
+  }
+
   // Getters
   public get isRoomActive(): boolean {
     return this.isActive
@@ -0,0 +1,97 @@
+/**
+ * Axis-aligned bounds in world coordinates
+ */
+export interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * Uniform grid broadphase - items are bucketed by the cells their bounds touch,
+ * so only items sharing a cell need a precise collision check
+ */
+export class SpatialHash<T> {
+  private cellSize: number
+  private cells: Map<number, T[]> = new Map()
+
+  constructor(cellSize: number = 64) {
+    this.cellSize = cellSize
+  }
+
+  /**
+   * Change the cell size (clears the hash)
+   */
+  public setCellSize(cellSize: number): void {
+    if (!(cellSize > 0)) {
+      throw new Error(`Invalid spatial hash cell size: ${cellSize}`)
+    }
+    this.cellSize = cellSize
+    this.clear()
+  }
+
+  public getCellSize(): number {
+    return this.cellSize
+  }
+
+  /**
+   * Remove all items
+   */
+  public clear(): void {
+    this.cells.clear()
+  }
+
+  /**
+   * Add an item covering the given bounds
+   */
+  public insert(item: T, bounds: Bounds): void {
+    const minX = Math.floor(bounds.left / this.cellSize)
+    const minY = Math.floor(bounds.top / this.cellSize)
+    const maxX = Math.floor(bounds.right / this.cellSize)
+    const maxY = Math.floor(bounds.bottom / this.cellSize)
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const key = SpatialHash.cellKey(cx, cy)
+        const cell = this.cells.get(key)
+        if (cell) {
+          cell.push(item)
+        } else {
+          this.cells.set(key, [item])
+        }
+      }
+    }
+  }
+
+  /**
+   * Get every item sharing a cell with the given bounds (candidates, not exact hits)
+   */
+  public query(bounds: Bounds): Set<T> {
+    const results: Set<T> = new Set()
+    const minX = Math.floor(bounds.left / this.cellSize)
+    const minY = Math.floor(bounds.top / this.cellSize)
+    const maxX = Math.floor(bounds.right / this.cellSize)
+    const maxY = Math.floor(bounds.bottom / this.cellSize)
+
+    for (let cx = minX; cx <= maxX; cx++) {
+      for (let cy = minY; cy <= maxY; cy++) {
+        const cell = this.cells.get(SpatialHash.cellKey(cx, cy))
+        if (cell) {
+          for (const item of cell) {
+            results.add(item)
+          }
+        }
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Pack cell coordinates into a single numeric key (exact for |cx|, |cy| < 2^20)
+   */
+  private static cellKey(cx: number, cy: number): number {
+    return (cx + 0x100000) * 0x200000 + (cy + 0x100000)
+  }
+}
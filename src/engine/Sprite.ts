@@ -3,6 +3,16 @@
  * Provides GameMaker-style sprite functionality using Rapid.js backend
  */
 
+/**
+ * How a sprite's animationSpeed is measured
+ */
+export const SpriteSpeedType = {
+  FRAMES_PER_SECOND: 'frames_per_second',
+  FRAMES_PER_STEP: 'frames_per_step'
+} as const
+
+export type SpriteSpeedType = typeof SpriteSpeedType[keyof typeof SpriteSpeedType]
+
 /**
  * Sprite configuration interface for DGC sprites
  */
@@ -17,8 +27,10 @@ export interface DGCSpriteConfig {
   frameWidth?: number
   /** Frame height in pixels (auto-detected if not specified) */
   frameHeight?: number
-  /** Animation speed in frames per second (default: 12) */
+  /** Animation speed in frames per second (default: 12), or frames per step with speedType FRAMES_PER_STEP */
   animationSpeed?: number
+  /** Unit of animationSpeed (default: frames per second) */
+  speedType?: SpriteSpeedType
   /** Origin point for transformations (0-1 normalized coordinates) */
   origin?: { x: number; y: number }
 }
@@ -35,6 +47,7 @@ export class Sprite {
   public frameWidth: number
   public frameHeight: number
   public readonly animationSpeed: number
+  public readonly speedType: SpriteSpeedType
   public readonly origin: { x: number; y: number }
   
   private loaded: boolean = false
@@ -44,6 +57,7 @@ export class Sprite {
     this.name = config.name
     this.frameCount = config.frames ?? 1
     this.animationSpeed = config.animationSpeed ?? 12
+    this.speedType = config.speedType ?? SpriteSpeedType.FRAMES_PER_SECOND
     this.origin = config.origin ?? { x: 0.5, y: 0.5 }
     
     // Initialize frame dimensions with defaults
@@ -116,6 +130,22 @@ export class Sprite {
     }
   }
 
+  /**
+   * Get how many frames to advance per game step at the given step rate
+   */
+  public getFramesPerStep(stepsPerSecond: number): number {
+    return this.speedType === SpriteSpeedType.FRAMES_PER_STEP
+      ? this.animationSpeed
+      : this.animationSpeed / stepsPerSecond
+  }
+
+  /**
+   * Get how long each frame is shown in milliseconds at the given step rate
+   */
+  public getFrameDuration(stepsPerSecond: number): number {
+    return 1000 / (this.getFramesPerStep(stepsPerSecond) * stepsPerSecond)
+  }
+
   /**
    * Get the current frame based on animation time
    */
@@ -1,4 +1,4 @@
-import { Sprite } from './Sprite.ts'
+import { Sprite, type SpriteSpeedType } from './Sprite.ts'
 
 /**
  * Configuration for loading a sprite
@@ -10,6 +10,7 @@ export interface SpriteLoadConfig {
   frameWidth?: number
   frameHeight?: number
   animationSpeed?: number
+  speedType?: SpriteSpeedType
   origin?: { x: number; y: number }
 }
 
@@ -129,6 +130,7 @@ export class SpriteManager {
       frameWidth: config.frameWidth,
       frameHeight: config.frameHeight,
       animationSpeed: config.animationSpeed,
+      speedType: config.speedType,
       origin: config.origin
     })
     
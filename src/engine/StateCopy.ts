@@ -0,0 +1,66 @@
+// Deep copies of instance state, shared by object pooling and cloning
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+}
+
+/**
+ * Deep-copy Maps, arrays and plain objects (Set items are copied shallowly)
+ * Class instances - sprites, masks, other GameObjects - are kept by reference
+ */
+export function copyValue(value: unknown): unknown {
+  if (value instanceof Map) {
+    return new Map(Array.from(value, ([key, item]) => [key, copyValue(item)]))
+  }
+  if (value instanceof Set) {
+    return new Set(value)
+  }
+  if (Array.isArray(value)) {
+    return value.map(copyValue)
+  }
+  if (isPlainObject(value)) {
+    const copy: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) {
+      copy[key] = copyValue(value[key])
+    }
+    return copy
+  }
+  return value
+}
+
+/**
+ * Rewind current to saved, refilling containers of the same kind in place
+ */
+export function restoreValue(current: unknown, saved: unknown): unknown {
+  if (saved instanceof Map && current instanceof Map) {
+    for (const key of Array.from(current.keys())) {
+      if (!saved.has(key)) current.delete(key)
+    }
+    for (const [key, item] of saved) {
+      current.set(key, restoreValue(current.get(key), item))
+    }
+    return current
+  }
+  if (saved instanceof Set && current instanceof Set) {
+    current.clear()
+    for (const item of saved) current.add(item)
+    return current
+  }
+  if (Array.isArray(saved) && Array.isArray(current)) {
+    current.length = saved.length
+    for (let i = 0; i < saved.length; i++) {
+      current[i] = restoreValue(current[i], saved[i])
+    }
+    return current
+  }
+  if (isPlainObject(saved) && isPlainObject(current)) {
+    for (const key of Object.keys(current)) {
+      if (!(key in saved)) delete current[key]
+    }
+    for (const key of Object.keys(saved)) {
+      current[key] = restoreValue(current[key], saved[key])
+    }
+    return current
+  }
+  return copyValue(saved)
+}
@@ -0,0 +1,194 @@
+import type { GameObject } from './GameObject'
+
+/**
+ * A state of a GameObject's state machine - every hook is optional
+ */
+export interface State<T extends GameObject = GameObject> {
+  /** Unique state name (shown in debug output) */
+  readonly name: string
+  /** Called when the state becomes current */
+  enter?(owner: T, previous: string | null): void
+  /** Called every step after the owner's step event */
+  step?(owner: T): void
+  /** Called every frame after the owner's draw event */
+  draw?(owner: T): void
+  /** Called when the state is left */
+  exit?(owner: T, next: string): void
+}
+
+/**
+ * Finite state machine for a GameObject (idle/moving/attacking, alive/dead, ...)
+ * Transitions can be requested from any event but are applied by the engine after
+ * the step end event, so a state never changes halfway through a step
+ */
+export class StateMachine<T extends GameObject = GameObject> {
+  private owner: T
+  private states: Map<string, State<T>> = new Map()
+  private current: State<T> | null = null
+  private pending: string | null = null
+  private pendingFromHistory: boolean = false
+  private history: string[] = []
+  private historyLimit: number = 16
+
+  constructor(owner: T) {
+    this.owner = owner
+  }
+
+  /**
+   * Add a state, replacing any state with the same name
+   */
+  public addState(state: State<T>): void {
+    this.states.set(state.name, state)
+  }
+
+  public hasState(name: string): boolean {
+    return this.states.has(name)
+  }
+
+  /**
+   * Request a transition - applied after the step end event
+   * The first state is entered immediately so it is active for the next step
+   */
+  public changeState(name: string): void {
+    this.requireState(name)
+
+    if (!this.current) {
+      this.transition(name, false)
+      return
+    }
+
+    this.pending = name
+    this.pendingFromHistory = false
+  }
+
+  /**
+   * Request a transition back to the previous state
+   * Returns false if there is no history to return to
+   */
+  public returnToPrevious(): boolean {
+    const previous = this.getPreviousState()
+    if (previous === null) return false
+
+    this.pending = previous
+    this.pendingFromHistory = true
+    return true
+  }
+
+  /**
+   * Check if a transition is waiting to be applied
+   */
+  public hasPendingTransition(): boolean {
+    return this.pending !== null
+  }
+
+  /**
+   * Apply the requested transition, if any (called by the engine after the step end event)
+   */
+  public applyPendingTransition(): void {
+    if (this.pending === null) return
+
+    const name = this.pending
+    const fromHistory = this.pendingFromHistory
+    this.pending = null
+    this.pendingFromHistory = false
+    this.transition(name, fromHistory)
+  }
+
+  /**
+   * Run the current state's step hook
+   */
+  public step(): void {
+    this.current?.step?.(this.owner)
+  }
+
+  /**
+   * Run the current state's draw hook
+   */
+  public draw(): void {
+    this.current?.draw?.(this.owner)
+  }
+
+  /**
+   * Get the current state name (null before the first state is entered)
+   */
+  public getCurrentState(): string | null {
+    return this.current ? this.current.name : null
+  }
+
+  /**
+   * Get the state that returnToPrevious() would go back to
+   */
+  public getPreviousState(): string | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1] : null
+  }
+
+  /**
+   * Get previously visited states, oldest first
+   */
+  public getHistory(): readonly string[] {
+    return this.history
+  }
+
+  public clearHistory(): void {
+    this.history = []
+  }
+
+  /**
+   * Copy states, the current state, any pending transition and history into a machine for another owner
+   * The copy is already in the current state - enter hooks don't run again
+   */
+  public clone(owner: T): StateMachine<T> {
+    const copy = new StateMachine(owner)
+    copy.states = new Map(this.states)
+    copy.current = this.current
+    copy.pending = this.pending
+    copy.pendingFromHistory = this.pendingFromHistory
+    copy.history = [...this.history]
+    copy.historyLimit = this.historyLimit
+    return copy
+  }
+
+  /**
+   * Rewind to a copy made with clone(), in place - enter and exit hooks don't run
+   * Used to reset a reused pooled instance
+   */
+  public reset(snapshot: StateMachine<T>): void {
+    this.states.clear()
+    for (const [name, state] of snapshot.states) {
+      this.states.set(name, state)
+    }
+    this.current = snapshot.current
+    this.pending = snapshot.pending
+    this.pendingFromHistory = snapshot.pendingFromHistory
+    this.history.length = 0
+    this.history.push(...snapshot.history)
+    this.historyLimit = snapshot.historyLimit
+  }
+
+  private transition(name: string, fromHistory: boolean): void {
+    const next = this.requireState(name)
+    const previous = this.current
+
+    previous?.exit?.(this.owner, name)
+
+    if (fromHistory) {
+      this.history.pop()
+    } else if (previous) {
+      this.history.push(previous.name)
+      if (this.history.length > this.historyLimit) {
+        this.history.shift()
+      }
+    }
+
+    this.current = next
+    next.enter?.(this.owner, previous ? previous.name : null)
+  }
+
+  private requireState(name: string): State<T> {
+    const state = this.states.get(name)
+    if (!state) {
+      throw new Error(`State '${name}' not found on ${this.owner.objectType}`)
+    }
+    return state
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Value types a property or variable can be declared with
+ */
+export const VariableType = {
+  NUMBER: 'number',
+  STRING: 'string',
+  BOOLEAN: 'boolean',
+  OBJECT: 'object',
+  ANY: 'any'
+} as const
+
+export type VariableType = typeof VariableType[keyof typeof VariableType]
+
+/**
+ * Declaration of one instance variable in an object type's schema
+ */
+export interface VariableDefinition<T = any> {
+  /** Value type (default: inferred from the default value, otherwise any) */
+  type?: VariableType
+  /** Initial value of every instance; use a function for per-instance arrays and objects */
+  default?: T | (() => T)
+  /** Smallest allowed number */
+  min?: number
+  /** Largest allowed number */
+  max?: number
+  /** Extra check - return false or an error message to reject a value */
+  validate?: (value: T) => boolean | string
+}
+
+/**
+ * Reflected description of a built-in property or schema variable
+ */
+export interface PropertyInfo {
+  name: string
+  type: VariableType
+  /** Built-in GameObject field rather than an instance variable */
+  builtin: boolean
+  readOnly: boolean
+  /** Declared in the object type's variable schema (built-ins are always declared) */
+  declared: boolean
+}
+
+/**
+ * Called after an instance variable changes - obj.onVariableChanged('hp', (hp, previous) => ...)
+ */
+export type VariableChangeListener<T = any> = (value: T, previous: T | undefined, name: string) => void
+
+/**
+ * Get the declared type of a variable, inferring it from its default value
+ */
+export function getVariableType(definition: VariableDefinition): VariableType {
+  if (definition.type) return definition.type
+
+  const value = definition.default
+  if (typeof value === 'number') return VariableType.NUMBER
+  if (typeof value === 'string') return VariableType.STRING
+  if (typeof value === 'boolean') return VariableType.BOOLEAN
+  return VariableType.ANY
+}
+
+/**
+ * Get the type of a field from its current value (functions and undefined are any)
+ */
+export function inferVariableType(value: unknown): VariableType {
+  if (typeof value === 'number') return VariableType.NUMBER
+  if (typeof value === 'string') return VariableType.STRING
+  if (typeof value === 'boolean') return VariableType.BOOLEAN
+  if (typeof value === 'object') return VariableType.OBJECT
+  return VariableType.ANY
+}
+
+/**
+ * Create the initial value of a variable for a new instance
+ */
+export function resolveDefault<T>(definition: VariableDefinition<T>): T | undefined {
+  return typeof definition.default === 'function'
+    ? (definition.default as () => T)()
+    : definition.default
+}
+
+/**
+ * Check a value against a type (null is allowed for objects)
+ */
+export function matchesVariableType(type: VariableType, value: unknown): boolean {
+  switch (type) {
+    case VariableType.NUMBER:
+      return typeof value === 'number' && !Number.isNaN(value)
+    case VariableType.STRING:
+      return typeof value === 'string'
+    case VariableType.BOOLEAN:
+      return typeof value === 'boolean'
+    case VariableType.OBJECT:
+      return typeof value === 'object'
+    default:
+      return true
+  }
+}
+
+/**
+ * Throw if a value doesn't satisfy a variable's definition
+ */
+export function validateVariable(owner: string, name: string, definition: VariableDefinition, value: unknown): void {
+  const type = getVariableType(definition)
+  if (!matchesVariableType(type, value)) {
+    throw new Error(`Invalid value for ${owner}.${name}: expected ${type}, got ${value === null ? 'null' : typeof value}`)
+  }
+
+  if (typeof value === 'number') {
+    if (definition.min !== undefined && value < definition.min) {
+      throw new Error(`Invalid value for ${owner}.${name}: ${value} is below the minimum ${definition.min}`)
+    }
+    if (definition.max !== undefined && value > definition.max) {
+      throw new Error(`Invalid value for ${owner}.${name}: ${value} is above the maximum ${definition.max}`)
+    }
+  }
+
+  const result = definition.validate?.(value)
+  if (result === false || typeof result === 'string') {
+    throw new Error(`Invalid value for ${owner}.${name}: ${typeof result === 'string' ? result : 'rejected by validator'}`)
+  }
+}
@@ -2,19 +2,37 @@
 export { Engine } from './Engine.ts'
 export { DGCGame } from './BaseGame.ts'
 export { type EngineConfig, createDGCEngineConfig } from './EngineConfig.ts'
+export { EnginePhase, SystemRegistry, BUILTIN_SYSTEM_PREFIX, type EngineSystem, type EngineSystemContext } from './EngineSystem.ts'
 
 // Core engine components
-export { GameObject, GameEvent, type EventScript, type GameObjectProperties } from './GameObject'
+export { GameObject, GameEvent, type EventScript, type GameObjectProperties, type TagFilter } from './GameObject'
+export { VariableType, type VariableDefinition, type VariableChangeListener, type PropertyInfo } from './VariableSchema.ts'
 export { EventManager, type EventListener } from './EventManager'
-export { GameObjectManager, type ObjectFilter } from './GameObjectManager'
+export { GameObjectManager, type ObjectFilter, type ObjectErrorHandler } from './GameObjectManager'
+export { SpatialHash, type Bounds } from './SpatialHash.ts'
+export { ObjectPool, type PoolFactory, type PoolOptions, type PoolStats } from './ObjectPool.ts'
+export { CollisionMask, RectangleMask, RotatedRectangleMask, CircleMask, PolygonMask, PreciseMask, polygonShape, circleShape, rectangleShape, lineShape, shapesOverlap, shapeContainsPoint, boundsOverlap, type Point, type MaskTransform, type CollisionShape } from './CollisionMask.ts'
+export { Component, type ComponentHook, type ComponentType } from './Component.ts'
+export { StateMachine, type State } from './StateMachine.ts'
 export { Room, type RoomConfig } from './Room.ts'
+export { Coroutine, waitFrames, waitUntil, waitWhile, type CoroutineGenerator, type CoroutineInstruction, type WaitFrames, type WaitUntil } from './Coroutine.ts'
 
 // DGC sprite system
-export { Sprite, DGCSpriteManager, type DGCSpriteConfig } from './Sprite.ts'
+export { Sprite, SpriteSpeedType, DGCSpriteManager, type DGCSpriteConfig } from './Sprite.ts'
 export { SpriteManager, type SpriteLoadConfig } from './SpriteManager'
+export { Animator, AnimationClip, AnimationLoopMode, type AnimationClipConfig, type AnimationFrameConfig, type AnimationClipFrame, type AnimatorTarget } from './Animator.ts'
 
 // Drawing systems
 export { DrawingSystem } from './DrawingSystem.ts'
+export { HeadlessDrawingSystem } from './HeadlessDrawingSystem.ts'
 
 // Input management
-export { InputManager } from './InputManager'
+export { InputManager, type InputState } from './InputManager'
+export { InputRecorder, type InputRecording } from './InputRecorder.ts'
+
+// Debugging
+export { ErrorPolicy, type ErrorPolicyConfig, type ObjectErrorEvent } from './ErrorPolicy.ts'
+export { Profiler, type ProfilerSample, type ProfilerFrameCapture, type ProfilerSortKey } from './Profiler.ts'
+
+// Deterministic simulation
+export { Random } from './Random.ts'
@@ -25,6 +25,7 @@ export class FPSMonitor extends GameObject {
   constructor(x: number = 20, y: number = 20) {
     super('FPSMonitor', { x, y })
     this.persistent = true  // Keep across room changes
+    this.updateWhenPaused = true  // Keep measuring while the game is paused
     this.depth = -1000  // Draw on top of everything
     this.lastTime = performance.now()
     this.lastFrameTime = performance.now()
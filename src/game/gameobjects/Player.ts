@@ -8,13 +8,9 @@ export class Player extends GameObject {
   public health: number = 100
   public maxHealth: number = 100
   public score: number = 0
-  public speed: number = 2.5
+  public moveSpeed: number = 2.5
   public alive: boolean = true
   
-  // High-precision logical position for sub-pixel movement
-  public realX: number = 0
-  public realY: number = 0
-  
   constructor(xOrConfig: number | { x: number; y: number; [key: string]: any }, y?: number) {
     // Handle both constructor signatures: Player(x, y) and Player({x, y, ...props})
     let x: number, yPos: number, config: any = {}
@@ -30,7 +26,10 @@ export class Player extends GameObject {
       config = xOrConfig
     }
     
-    super('Player', { x, y: yPos, ...config })
+    // config.speed is the player's movement rate, not the built-in motion speed, so it is
+    // kept out of the properties handed to GameObject
+    const { speed: _speed, ...properties } = config
+    super('Player', { x, y: yPos, ...properties })
     
     console.log('🎮 Player created at position:', x, yPos)
     
@@ -41,14 +40,10 @@ export class Player extends GameObject {
     // Initialize class properties (no more GameMaker-style variables)
     this.health = config.health || 100
     this.maxHealth = config.maxHealth || 100
-    this.speed = config.speed || 2.5 // Sub-pixel speed for smooth movement
+    this.moveSpeed = config.moveSpeed || config.speed || 2.5 // Sub-pixel speed for smooth movement
     this.score = 0
     this.alive = true
     
-    // Initialize high-precision logical position (separate from visual position)
-    this.realX = this.x // Floating-point logical position
-    this.realY = this.y // Floating-point logical position
-    
     console.log('🎮 Player setup complete with sub-pixel precision and real class properties')
   }
 
@@ -75,52 +70,41 @@ export class Player extends GameObject {
    * STEP event - called every frame for game logic
    */
   public onStep(): void {
-    // Sub-pixel precision movement for buttery smoothness
+    // Sub-pixel precision movement - the engine applies hspeed/vspeed after this event
     const game = (window as any).game
     if (game) {
-      // Get high-precision logical position from class properties
-      let realX = this.realX
-      let realY = this.realY
-      
-      // Direct movement based on input (affects logical position)
       let moveX = 0
       let moveY = 0
       
-      if (game.isKeyPressed('KeyA') || game.isKeyPressed('ArrowLeft')) moveX = -this.speed
-      if (game.isKeyPressed('KeyD') || game.isKeyPressed('ArrowRight')) moveX = this.speed
-      if (game.isKeyPressed('KeyW') || game.isKeyPressed('ArrowUp')) moveY = -this.speed
-      if (game.isKeyPressed('KeyS') || game.isKeyPressed('ArrowDown')) moveY = this.speed
+      if (game.isKeyPressed('KeyA') || game.isKeyPressed('ArrowLeft')) moveX = -this.moveSpeed
+      if (game.isKeyPressed('KeyD') || game.isKeyPressed('ArrowRight')) moveX = this.moveSpeed
+      if (game.isKeyPressed('KeyW') || game.isKeyPressed('ArrowUp')) moveY = -this.moveSpeed
+      if (game.isKeyPressed('KeyS') || game.isKeyPressed('ArrowDown')) moveY = this.moveSpeed
       
-      // Apply movement to high-precision logical coordinates
-      if (moveX !== 0 || moveY !== 0) {
-        realX += moveX
-        realY += moveY
-        
-        // Keep player within canvas bounds (logical position)
-        const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement
-        if (canvas) {
-          const spriteSize = 32
-          const halfSprite = spriteSize / 2
-          realX = Math.max(halfSprite, Math.min(canvas.width - halfSprite, realX))
-          realY = Math.max(halfSprite, Math.min(canvas.height - halfSprite, realY))
-        }
-        
-        // Store updated logical position in class properties
-        this.realX = realX
-        this.realY = realY
-        
-        // Update visual position for rendering (will be rounded during draw)
-        this.x = realX
-        this.y = realY
-      }
+      this.hspeed = moveX
+      this.vspeed = moveY
     }
     
-    // Health regeneration using class properties
-    if (this.health < this.maxHealth && Math.random() < 0.001) {
+    // Health regeneration using class properties (seeded so runs can be replayed)
+    if (this.health < this.maxHealth && this.getRandom().random(1) < 0.001) {
       this.health = Math.min(this.maxHealth, this.health + 1)
     }
   }
 
+  /**
+   * STEP END event - runs after motion has been applied
+   */
+  public onStepEnd(): void {
+    // Keep player within canvas bounds
+    const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement
+    if (canvas) {
+      const spriteSize = 32
+      const halfSprite = spriteSize / 2
+      this.x = Math.max(halfSprite, Math.min(canvas.width - halfSprite, this.x))
+      this.y = Math.max(halfSprite, Math.min(canvas.height - halfSprite, this.y))
+    }
+  }
+
   /**
    * DRAW event - called every frame for rendering
    */
@@ -253,14 +237,14 @@ export class Player extends GameObject {
    * Get player speed
    */
   public getSpeed(): number {
-    return this.speed
+    return this.moveSpeed
   }
 
   /**
    * Set player speed
    */
   public setSpeed(speed: number): void {
-    this.speed = Math.max(1, speed)
+    this.moveSpeed = Math.max(1, speed)
     console.log(`🏃 Player speed: ${this.getSpeed()}`)
   }
 
@@ -72,7 +72,7 @@ export class SpriteMoveTestRoom extends Room {
     }
   }
 
-  public async onRoomStart(): Promise<void> {
+  public override async onRoomStart(): Promise<void> {
     console.log('🚀 SpriteMoveTestRoom started - all setup complete')
   }
 
@@ -80,7 +80,7 @@ export class SpriteMoveTestRoom extends Room {
     // Room update logic if needed
   }
 
-  public onRoomEnd(): void {
+  public override onRoomEnd(): void {
     console.log('🏠 SpriteMoveTestRoom ended')
   }
 }
@@ -80,12 +80,19 @@ document.addEventListener('DOMContentLoaded', async () => {
         console.log('Engine state:', {
           isRunning: engine ? 'Yes' : 'No',
           objectCount: engine ? (engine as any).gameObjectManager?.getObjectCount() : 'N/A',
+          pools: engine ? engine.getObjectManager().getPoolStats() : 'N/A',
           canvasSize: canvas ? `${canvas.width}x${canvas.height}` : 'N/A',
           drawingSystem: drawing ? 'Available' : 'Missing'
         })
         return { engine, canvas, drawing }
       }
       
+      ;(window as any).listObjects = () => {
+        const objects = game.getEngine().getObjectManager().getAllObjects()
+        console.table(objects.map(obj => obj.getDebugInfo()))
+        return objects
+      }
+      
       ;(window as any).debugCanvas = () => {
         const canvas = game.getCanvas()
         const rect = canvas.getBoundingClientRect()
@@ -128,6 +135,24 @@ document.addEventListener('DOMContentLoaded', async () => {
         }
       }
       
+      ;(window as any).toggleProfiler = () => {
+        const profiler = game.getEngine().getProfiler()
+        if (profiler.isOverlayVisible()) {
+          profiler.hideOverlay()
+          profiler.disable()
+        } else {
+          profiler.showOverlay()
+        }
+      }
+      
+      ;(window as any).sortProfiler = () => game.getEngine().getProfiler().cycleSortKey()
+      
+      ;(window as any).exportProfilerCapture = () => {
+        const json = game.getEngine().getProfiler().exportCapture()
+        console.log(json)
+        return json
+      }
+      
       console.log('🎮 Simplified Game Debug Commands:')
       console.log('  goToMenu() - Go to main menu')
       console.log('  goToSpriteDemo() - Go to sprite demo')
@@ -136,9 +161,13 @@ document.addEventListener('DOMContentLoaded', async () => {
       console.log('  getRoomManager() - Get room manager')
       console.log('  createTestPlayer() - Create a test player')
       console.log('  debugEngine() - Check engine state')
+      console.log('  listObjects() - List all instances with position and state')
       console.log('  debugCanvas() - Check canvas dimensions')
       console.log('  testDraw(x, y) - Draw a test rectangle at position')
       console.log('  testSprites() - Debug sprite availability')
+      console.log('  toggleProfiler() - Show/hide the profiler overlay')
+      console.log('  sortProfiler() - Cycle the profiler overlay sort order')
+      console.log('  exportProfilerCapture() - Export the last profiled frame as JSON')
     }
     
   } catch (error) {
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameEvent, GameObject } from '../../src/engine/index.ts'
+
+class Clock extends GameObject {
+  public log: string[] = []
+  public period = 0
+
+  constructor() {
+    super('Clock')
+  }
+
+  onStepBegin() { this.log.push('stepBegin') }
+  onStep() { this.log.push('step') }
+
+  onAlarm(index: number) {
+    this.log.push(`alarm${index}`)
+    if (this.period > 0) this.alarm[index] = this.period
+  }
+}
+
+describe('alarms', () => {
+  let engine: Engine
+  let clock: Clock
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    engine = new Engine({ headless: true })
+    clock = new Clock()
+    engine.addGameObject(clock)
+  })
+
+  it('counts down once per step and fires between begin step and step', () => {
+    clock.alarm[0] = 2
+
+    engine.tick(3)
+
+    expect(clock.log).toEqual([
+      'stepBegin', 'step',
+      'stepBegin', 'alarm0', 'step',
+      'stepBegin', 'step'
+    ])
+    expect(clock.alarm[0]).toBe(-1)
+  })
+
+  it('can be re-armed from its own alarm event', () => {
+    clock.period = 3
+    clock.alarm[1] = 3
+
+    engine.tick(9)
+
+    expect(clock.log.filter(entry => entry === 'alarm1')).toHaveLength(3)
+    expect(clock.alarm[1]).toBe(3)
+  })
+
+  it('fires several alarms in index order and passes the index to event scripts', () => {
+    const fired: unknown[] = []
+    clock.addEventScript(GameEvent.ALARM, (_instance, data) => { fired.push(data) })
+    clock.alarm[11] = 1
+    clock.alarm[2] = 1
+
+    engine.tick(1)
+
+    expect(clock.log).toEqual(['stepBegin', 'alarm2', 'alarm11', 'step'])
+    expect(fired).toEqual([{ index: 2 }, { index: 11 }])
+  })
+
+  it('never fires alarms that are off or set to zero', () => {
+    clock.alarm[0] = 0
+    clock.alarm[1] = -1
+
+    engine.tick(3)
+
+    expect(clock.log).not.toContain('alarm0')
+    expect(clock.log).not.toContain('alarm1')
+  })
+
+  it('stops counting while the engine is paused', () => {
+    clock.alarm[0] = 2
+
+    engine.pause()
+    engine.tick(5)
+    expect(clock.alarm[0]).toBe(2)
+
+    engine.resume()
+    engine.tick(2)
+    expect(clock.log).toContain('alarm0')
+  })
+})
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameEvent, GameObject, Sprite, SpriteSpeedType } from '../../src/engine/index.ts'
+
+function createSprite(animationSpeed: number, speedType: SpriteSpeedType): Sprite {
+  return new Sprite({ name: 'strip', source: 'strip.png', frames: 4, frameWidth: 16, frameHeight: 16, animationSpeed, speedType })
+}
+
+describe('sprite animation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('advances a frames-per-step clip at the same rate as the plain sprite strip', () => {
+    const engine = new Engine({ headless: true, targetFPS: 60 })
+    const sprite = createSprite(0.25, SpriteSpeedType.FRAMES_PER_STEP)
+
+    const plain = new GameObject('Plain', { sprite })
+    const clipped = new GameObject('Clipped', { sprite })
+    engine.addGameObject(plain)
+    engine.addGameObject(clipped)
+    clipped.addAnimation({ name: 'walk', sprite })
+    clipped.play('walk')
+
+    engine.tick(4)
+    expect(Math.floor(plain.imageIndex)).toBe(1)
+    expect(clipped.imageIndex).toBe(1)
+
+    engine.tick(4)
+    expect(Math.floor(plain.imageIndex)).toBe(2)
+    expect(clipped.imageIndex).toBe(2)
+  })
+
+  it('uses frames per second for ordinary sprites', () => {
+    const engine = new Engine({ headless: true, targetFPS: 60 })
+    const sprite = createSprite(15, SpriteSpeedType.FRAMES_PER_SECOND)
+    const obj = new GameObject('Clipped', { sprite })
+    engine.addGameObject(obj)
+    obj.addAnimation({ name: 'walk', sprite })
+    obj.play('walk')
+
+    engine.tick(4)
+
+    expect(obj.imageIndex).toBe(1)
+  })
+
+  it('lets an explicit clip speed override the sprite speed', () => {
+    const engine = new Engine({ headless: true, targetFPS: 60 })
+    const sprite = createSprite(0.25, SpriteSpeedType.FRAMES_PER_STEP)
+    const obj = new GameObject('Clipped', { sprite })
+    engine.addGameObject(obj)
+    obj.addAnimation({ name: 'fast', sprite, speed: 30 })
+    obj.play('fast')
+
+    engine.tick(2)
+
+    expect(obj.imageIndex).toBe(1)
+  })
+})
+
+describe('sprite strip playback', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  // Half a frame per step on a 4-frame strip, so one loop takes 8 steps
+  function createAnimated(properties: Record<string, unknown> = {}): { engine: Engine, obj: GameObject, ends: unknown[] } {
+    const engine = new Engine({ headless: true, targetFPS: 60 })
+    const obj = new GameObject('Animated', { sprite: createSprite(0.5, SpriteSpeedType.FRAMES_PER_STEP), ...properties })
+    const ends: unknown[] = []
+    obj.addEventScript(GameEvent.ANIMATION_END, (_instance, data) => { ends.push(data) })
+    engine.addGameObject(obj)
+    return { engine, obj, ends }
+  }
+
+  it('advances imageIndex by the sprite speed times imageSpeed and fires ANIMATION_END on each wrap', () => {
+    const { engine, obj, ends } = createAnimated()
+
+    engine.tick(7)
+    expect(obj.imageIndex).toBe(3.5)
+    expect(ends).toEqual([])
+
+    engine.tick(1)
+    expect(obj.imageIndex).toBe(0)
+    expect(ends).toEqual([{ clip: null }])
+
+    obj.imageSpeed = 2
+    engine.tick(4)
+    expect(ends).toHaveLength(2)
+  })
+
+  it('holds the last frame and stops when imageLoop is off', () => {
+    const { engine, obj, ends } = createAnimated({ imageLoop: false })
+    const onAnimationEnd = vi.spyOn(obj, 'onAnimationEnd')
+
+    engine.tick(12)
+
+    expect(obj.imageIndex).toBe(3)
+    expect(obj.imageSpeed).toBe(0)
+    expect(ends).toHaveLength(1)
+    expect(onAnimationEnd).toHaveBeenCalledOnce()
+    expect(onAnimationEnd).toHaveBeenCalledWith(null)
+  })
+
+  it('plays backwards with a negative imageSpeed', () => {
+    const { engine, obj, ends } = createAnimated({ imageSpeed: -1 })
+
+    engine.tick(1)
+
+    expect(obj.imageIndex).toBe(3.5)
+    expect(ends).toHaveLength(1)
+  })
+
+  it('stays on its frame with imageSpeed 0 or while paused', () => {
+    const { engine, obj } = createAnimated({ imageSpeed: 0, imageIndex: 2 })
+
+    engine.tick(3)
+    expect(obj.imageIndex).toBe(2)
+
+    obj.imageSpeed = 1
+    engine.pause()
+    engine.tick(3)
+    expect(obj.imageIndex).toBe(2)
+  })
+})
+
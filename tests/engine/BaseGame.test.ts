@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DGCGame, GameObject, Room, type EngineConfig } from '../../src/engine/index.ts'
+
+class TestGame extends DGCGame {
+  protected getEngineConfig(): EngineConfig {
+    return { headless: true }
+  }
+
+  protected async setupGame(): Promise<void> {}
+}
+
+class LoggingRoom extends Room {
+  private log: string[]
+
+  constructor(name: string, game: DGCGame, log: string[]) {
+    super({ name, width: 10, height: 10 }, game)
+    this.log = log
+  }
+
+  onRoomStart() { this.log.push(`start:${this.name}`) }
+  onRoomEnd() { this.log.push(`end:${this.name}`) }
+}
+
+describe('DGCGame lifecycle', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  async function createGame(log: string[]): Promise<TestGame> {
+    const game = new TestGame()
+    const events = game.getEngine().getEventManager()
+    for (const type of ['game_start', 'game_end', 'room_start', 'room_end']) {
+      events.addEventListener(type, () => { log.push(type) })
+    }
+    await game.initialize()
+    return game
+  }
+
+  it('starts and stops synchronously, running room hooks around the game events', async () => {
+    const log: string[] = []
+    const game = await createGame(log)
+    game.addRoom(new LoggingRoom('first', game, log))
+    await game.goToRoom('first')
+
+    expect(game.start()).toBeUndefined()
+    await game.whenLifecycleIdle()
+
+    expect(game.stop()).toBeUndefined()
+    await game.whenLifecycleIdle()
+
+    expect(log).toEqual([
+      'game_start', 'start:first', 'room_start',
+      'end:first', 'room_end', 'game_end'
+    ])
+  })
+
+  it('ends the old room before starting the new one when switching rooms', async () => {
+    const log: string[] = []
+    const game = await createGame(log)
+    game.addRoom(new LoggingRoom('first', game, log))
+    game.addRoom(new LoggingRoom('second', game, log))
+    await game.goToRoom('first')
+    game.start()
+
+    await game.goToRoom('second')
+
+    expect(log).toEqual([
+      'game_start', 'start:first', 'room_start',
+      'end:first', 'room_end', 'start:second', 'room_start'
+    ])
+  })
+
+  it('logs a failing room hook instead of rejecting', async () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const game = await createGame([])
+    const room = new Room({ name: 'broken', width: 10, height: 10 }, game)
+    room.onRoomStart = async () => { throw new Error('hook failed') }
+    game.addRoom(room)
+    await game.goToRoom('broken')
+
+    game.start()
+    await game.whenLifecycleIdle()
+
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining('start failed'), expect.any(Error))
+  })
+
+  it('leaves the room system name free for game systems', () => {
+    const game = new TestGame()
+    const engine = game.getEngine()
+
+    expect(() => engine.registerSystem({ name: 'room' })).not.toThrow()
+    expect(() => engine.registerSystem({ name: 'dgc:room' })).toThrow(/reserved/)
+  })
+})
+
+describe('DGCGame room loop', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  async function createGame(log: string[]): Promise<TestGame> {
+    const game = new TestGame()
+    await game.initialize()
+    game.addRoom(new Room({
+      name: 'level',
+      width: 10,
+      height: 10,
+      onStep: () => { log.push('room:step') },
+      onDraw: () => { log.push('room:draw') },
+      onDrawEnd: () => { log.push('room:drawEnd') }
+    }, game))
+    return game
+  }
+
+  it('runs the room step before instances step and its draw scripts around instance draws', async () => {
+    const log: string[] = []
+    const game = await createGame(log)
+    const obj = new GameObject('Probe')
+    obj.onStep = () => { log.push('object:step') }
+    obj.onDraw = () => { log.push('object:draw') }
+    game.getRoom('level')!.addGameObject(obj)
+    await game.goToRoom('level')
+
+    game.getEngine().tick(1)
+
+    expect(log).toEqual(['room:step', 'object:step', 'room:draw', 'object:draw', 'room:drawEnd'])
+  })
+
+  it('skips the room step but keeps drawing while the engine is paused', async () => {
+    const log: string[] = []
+    const game = await createGame(log)
+    await game.goToRoom('level')
+
+    game.getEngine().pause()
+    game.getEngine().tick(1)
+
+    expect(log).toEqual(['room:draw', 'room:drawEnd'])
+  })
+
+  it('moves the room objects into the engine and out again when switching rooms', async () => {
+    const game = await createGame([])
+    game.addRoom(new Room({ name: 'next', width: 10, height: 10 }, game))
+    const obj = new GameObject('Probe')
+    game.getRoom('level')!.addGameObject(obj)
+    const manager = game.getEngine().getObjectManager()
+
+    await game.goToRoom('level')
+    expect(manager.instanceExists(obj)).toBe(true)
+
+    await game.goToRoom('next')
+    game.getEngine().tick(1)
+    expect(manager.instanceExists(obj)).toBe(false)
+    expect(game.getCurrentRoom()?.name).toBe('next')
+  })
+})
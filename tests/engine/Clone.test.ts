@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+class Turret extends GameObject {
+  public targets: number[] = [1, 2]
+  public fired = 0
+
+  constructor() {
+    super('Turret', { x: 5, y: 5 })
+  }
+}
+
+describe('GameObject.clone', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('copies fields into a registered instance with a new id', () => {
+    const engine = new Engine({ headless: true })
+    const turret = new Turret()
+    engine.addGameObject(turret)
+
+    const copy = turret.clone(40, 50)
+    copy.targets.push(3)
+
+    expect(copy).toBeInstanceOf(Turret)
+    expect(copy.id).not.toBe(turret.id)
+    expect([copy.x, copy.y]).toEqual([40, 50])
+    expect(turret.targets).toEqual([1, 2])
+    expect(engine.getObjectManager().getObjectsByType('Turret')).toEqual([turret, copy])
+  })
+
+  it('does not copy timers, whose callbacks are bound to the original', () => {
+    const engine = new Engine({ headless: true })
+    const turret = new Turret()
+    engine.addGameObject(turret)
+    turret.setTimer('reload', 1, () => { turret.fired++ })
+
+    const copy = turret.clone()
+    engine.tick(1)
+
+    expect(turret.fired).toBe(1)
+    expect(copy.fired).toBe(0)
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, RectangleMask } from '../../src/engine/index.ts'
+
+class Box extends GameObject {
+  public hits: string[] = []
+
+  constructor(objectType: string, x: number, y: number) {
+    super(objectType, { x, y, solid: true, collisionMask: new RectangleMask(-8, -8, 8, 8) })
+  }
+
+  onCollision(other: GameObject) {
+    this.hits.push(`${other.objectType}#${other.id}`)
+  }
+}
+
+describe('collision dispatch', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('dispatches every overlapping pair to both instances, in instance order', () => {
+    const engine = new Engine({ headless: true })
+    const a = new Box('A', 0, 0)
+    const b = new Box('B', 4, 0)
+    const c = new Box('C', 100, 0)
+    engine.addGameObject(a)
+    engine.addGameObject(b)
+    engine.addGameObject(c)
+
+    engine.tick(1)
+
+    expect(a.hits).toEqual([`B#${b.id}`])
+    expect(b.hits).toEqual([`A#${a.id}`])
+    expect(c.hits).toEqual([])
+  })
+
+  it('keeps dispatching the remaining collisions when an earlier one destroyed another instance', () => {
+    const engine = new Engine({ headless: true })
+    const player = new Box('Player', 0, 0)
+    const coin = new Box('Coin', 2, 0)
+    const trap = new Box('Trap', -2, 0)
+    const enemy = new Box('Enemy', 0, 2)
+    engine.addGameObject(player)
+    engine.addGameObject(coin)
+    engine.addGameObject(trap)
+    engine.addGameObject(enemy)
+
+    // Picking up the coin disarms the trap before its collision is dispatched
+    player.onCollision = (other: GameObject) => {
+      player.hits.push(other.objectType)
+      if (other === coin) trap.destroy()
+    }
+
+    engine.tick(1)
+
+    expect(player.hits).toEqual(['Coin', 'Enemy'])
+  })
+
+  it('keeps dispatching the remaining collisions when an earlier one deactivated another instance', () => {
+    const engine = new Engine({ headless: true })
+    const player = new Box('Player', 0, 0)
+    const coin = new Box('Coin', 2, 0)
+    const trap = new Box('Trap', -2, 0)
+    const enemy = new Box('Enemy', 0, 2)
+    engine.addGameObject(player)
+    engine.addGameObject(coin)
+    engine.addGameObject(trap)
+    engine.addGameObject(enemy)
+
+    player.onCollision = (other: GameObject) => {
+      player.hits.push(other.objectType)
+      if (other === coin) trap.active = false
+    }
+
+    engine.tick(1)
+
+    expect(player.hits).toEqual(['Coin', 'Enemy'])
+  })
+
+  it('stops an instance\'s remaining collisions once it destroys itself', () => {
+    const engine = new Engine({ headless: true })
+    const bullet = new Box('Bullet', 0, 0)
+    engine.addGameObject(bullet)
+    engine.addGameObject(new Box('Wall', 2, 0))
+    engine.addGameObject(new Box('Wall', -2, 0))
+
+    bullet.onCollision = (other: GameObject) => {
+      bullet.hits.push(other.objectType)
+      bullet.destroy()
+    }
+
+    engine.tick(1)
+
+    expect(bullet.hits).toEqual(['Wall'])
+  })
+
+  it('applies the same rules to the legacy checkCollisions path', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const player = new Box('Player', 0, 0)
+    const coin = new Box('Coin', 2, 0)
+    const trap = new Box('Trap', -2, 0)
+    const enemy = new Box('Enemy', 0, 2)
+    engine.addGameObject(player)
+    engine.addGameObject(coin)
+    engine.addGameObject(trap)
+    engine.addGameObject(enemy)
+
+    player.onCollision = (other: GameObject) => {
+      player.hits.push(other.objectType)
+      if (other === coin) trap.destroy()
+    }
+
+    manager.checkCollisions()
+
+    expect(player.hits).toEqual(['Coin', 'Enemy'])
+  })
+})
+
+describe('bounding box masks', () => {
+  it('reuses the mask until the bounding box changes', () => {
+    const obj = new GameObject('Crate', { x: 10, y: 10 })
+    obj.boundingBox = { left: -4, top: -4, right: 4, bottom: 4 }
+
+    const mask = obj.getCollisionMask()
+    expect(mask).toBeInstanceOf(RectangleMask)
+    expect(obj.getCollisionMask()).toBe(mask)
+
+    obj.boundingBox.right = 8
+    const resized = obj.getCollisionMask()
+    expect(resized).not.toBe(mask)
+    expect(obj.getBounds()).toEqual({ left: 6, top: 6, right: 18, bottom: 14 })
+  })
+})
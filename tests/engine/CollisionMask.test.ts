@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import {
+  GameObject, RectangleMask, RotatedRectangleMask, CircleMask, PolygonMask, PreciseMask,
+  rectangleShape, circleShape, lineShape, shapesOverlap, shapeContainsPoint, type MaskTransform
+} from '../../src/engine/index.ts'
+
+function at(x: number, y: number, overrides: Partial<MaskTransform> = {}): MaskTransform {
+  return { x, y, xScale: 1, yScale: 1, angle: 0, frame: 0, ...overrides }
+}
+
+// 4x4 mask with a single solid pixel at (px, py), origin in the top-left corner
+function pixelMask(px: number, py: number): PreciseMask {
+  const frame = new Uint8Array(16)
+  frame[py * 4 + px] = 1
+  return new PreciseMask(4, 4, [frame])
+}
+
+describe('collision masks', () => {
+  it('scales axis-aligned rectangles but ignores the angle', () => {
+    const mask = new RectangleMask(-2, -1, 2, 1)
+
+    expect(mask.toShape(at(10, 10, { xScale: 2, angle: 45 })).bounds).toEqual({ left: 6, top: 9, right: 14, bottom: 11 })
+  })
+
+  it('rotates rotated rectangles with the instance', () => {
+    const mask = new RotatedRectangleMask(-10, -1, 10, 1)
+    const upright = mask.toShape(at(0, 0, { angle: 90 }))
+
+    expect(upright.bounds.top).toBeCloseTo(-10)
+    expect(upright.bounds.right).toBeCloseTo(1)
+    expect(shapeContainsPoint(upright, 0, 8)).toBe(true)
+    expect(shapeContainsPoint(mask.toShape(at(0, 0)), 0, 8)).toBe(false)
+  })
+
+  it('overlaps circles by distance, not bounds, and ignores touching edges', () => {
+    const mask = new CircleMask(5)
+
+    expect(shapesOverlap(mask.toShape(at(0, 0)), mask.toShape(at(9, 0)))).toBe(true)
+    expect(shapesOverlap(mask.toShape(at(0, 0)), mask.toShape(at(10, 0)))).toBe(false)
+    // Bounds overlap diagonally, the circles don't
+    expect(shapesOverlap(mask.toShape(at(0, 0)), mask.toShape(at(8, 8)))).toBe(false)
+    // Non-uniform scale grows the radius by the larger axis
+    expect(mask.toShape(at(0, 0, { xScale: 1, yScale: -3 })).bounds.right).toBe(15)
+  })
+
+  it('separates convex polygons along any edge axis', () => {
+    const triangle = new PolygonMask([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }])
+    const shape = triangle.toShape(at(0, 0))
+
+    expect(shapesOverlap(shape, rectangleShape(1, 1, 3, 3))).toBe(true)
+    // Inside the triangle's bounds, but past its diagonal edge
+    expect(shapesOverlap(shape, rectangleShape(7, 7, 9, 9))).toBe(false)
+    expect(shapesOverlap(shape, lineShape(-5, 5, 5, 5))).toBe(true)
+    expect(shapesOverlap(shape, circleShape(9, 9, 1))).toBe(false)
+    expect(shapesOverlap(shape, circleShape(5, 6, 1))).toBe(true)
+  })
+
+  it('hits only solid pixels of precise masks', () => {
+    const mask = pixelMask(2, 1)
+    const shape = mask.toShape(at(100, 100))
+
+    expect(shape.bounds).toEqual({ left: 102, top: 101, right: 103, bottom: 102 })
+    expect(shapeContainsPoint(shape, 102.5, 101.5)).toBe(true)
+    expect(shapeContainsPoint(shape, 101.5, 101.5)).toBe(false)
+
+    expect(shapesOverlap(shape, pixelMask(2, 1).toShape(at(100, 100)))).toBe(true)
+    expect(shapesOverlap(shape, pixelMask(1, 1).toShape(at(101, 100)))).toBe(true)
+    expect(shapesOverlap(shape, pixelMask(1, 1).toShape(at(100, 100)))).toBe(false)
+    expect(shapesOverlap(shape, circleShape(102.5, 101.5, 0.4))).toBe(true)
+  })
+
+  it('picks the precise frame from imageIndex, wrapping around', () => {
+    const empty = new Uint8Array(4)
+    const full = new Uint8Array([1, 1, 1, 1])
+    const mask = new PreciseMask(2, 2, [empty, full])
+    const box = rectangleShape(0, 0, 2, 2)
+
+    expect(shapesOverlap(mask.toShape(at(0, 0, { frame: 0 })), box)).toBe(false)
+    expect(shapesOverlap(mask.toShape(at(0, 0, { frame: 1 })), box)).toBe(true)
+    expect(shapesOverlap(mask.toShape(at(0, 0, { frame: 3 })), box)).toBe(true)
+  })
+
+  it('rejects malformed masks', () => {
+    expect(() => new CircleMask(-1)).toThrow(/radius/)
+    expect(() => new PolygonMask([{ x: 0, y: 0 }, { x: 1, y: 1 }])).toThrow(/at least 3 points/)
+    expect(() => new PreciseMask(2, 2, [new Uint8Array(3)])).toThrow(/expected 4/)
+    expect(() => new PreciseMask(2, 2, [])).toThrow(/at least one frame/)
+  })
+
+  it('places an instance mask with its scale and angle', () => {
+    const a = new GameObject('A', { x: 0, y: 0, solid: true, collisionMask: new RotatedRectangleMask(-10, -1, 10, 1) })
+    const b = new GameObject('B', { x: 0, y: 8, solid: true, collisionMask: new CircleMask(1) })
+
+    expect(a.collidesWith(b)).toBe(false)
+    a.imageAngle = 90
+    expect(a.collidesWith(b)).toBe(true)
+    a.imageYScale = 0.5
+    a.imageXScale = 0.5
+    expect(a.collidesWith(b)).toBe(false)
+  })
+})
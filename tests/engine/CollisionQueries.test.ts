@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, RectangleMask, CircleMask } from '../../src/engine/index.ts'
+
+// 16x16 box around its position
+function box(engine: Engine, objectType: string, x: number, y: number, properties: Record<string, unknown> = {}): GameObject {
+  const obj = new GameObject(objectType, { x, y, solid: true, collisionMask: new RectangleMask(-8, -8, 8, 8), ...properties })
+  engine.addGameObject(obj)
+  return obj
+}
+
+describe('collision queries', () => {
+  let engine: Engine
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    engine = new Engine({ headless: true })
+  })
+
+  it('checks places with the instance mask moved to the given position', () => {
+    const player = box(engine, 'Player', 0, 0)
+    const wall = box(engine, 'Wall', 20, 0)
+
+    // Touching edges don't count
+    expect(player.placeMeeting(4, 0, 'Wall')).toBe(false)
+    expect(player.placeMeeting(5, 0, 'Wall')).toBe(true)
+    expect(player.instancePlace(5, 0)).toBe(wall)
+    // Never meets itself
+    expect(player.placeMeeting(0, 0)).toBe(false)
+    expect(player.x).toBe(0)
+  })
+
+  it('lists every instance at a place in instance order, filtered by type or tag', () => {
+    const player = box(engine, 'Player', 0, 0)
+    const coin = box(engine, 'Coin', 20, 0, { tags: ['pickup'] })
+    const wall = box(engine, 'Wall', 20, 4)
+
+    expect(player.instancePlaceList(20, 0)).toEqual([coin, wall])
+    expect(player.instancePlaceList(20, 0, 'Wall')).toEqual([wall])
+    expect(player.instancePlaceList(20, 0, { tag: 'pickup' })).toEqual([coin])
+  })
+
+  it('treats a place as free when only non-solid instances are there', () => {
+    const player = box(engine, 'Player', 0, 0)
+    box(engine, 'Trigger', 20, 0, { solid: false })
+    box(engine, 'Wall', 40, 0)
+
+    expect(player.placeFree(20, 0)).toBe(true)
+    expect(player.placeFree(40, 0)).toBe(false)
+  })
+
+  it('skips the calling instance only when notme is set', () => {
+    const player = box(engine, 'Player', 0, 0)
+    const crate = box(engine, 'Crate', 4, 0)
+
+    expect(player.collisionPoint(2, 0)).toBe(crate)
+    expect(player.collisionPoint(2, 0, 'all', true, false)).toBe(player)
+    expect(player.collisionPointList(2, 0, 'all', true, false)).toEqual([player, crate])
+    expect(player.instancePosition(2, 0)).toBe(player)
+  })
+
+  it('compares exact shapes when precise and bounding boxes otherwise', () => {
+    const player = box(engine, 'Player', 100, 100)
+    const orb = new GameObject('Orb', { x: 0, y: 0, collisionMask: new CircleMask(10) })
+    engine.addGameObject(orb)
+
+    // Inside the circle's bounding box corner, outside the circle
+    expect(player.collisionRectangle(8, 8, 9.5, 9.5, 'Orb')).toBeNull()
+    expect(player.collisionRectangle(8, 8, 9.5, 9.5, 'Orb', false)).toBe(orb)
+    expect(player.collisionCircle(14, 0, 5, 'Orb')).toBe(orb)
+    expect(player.collisionCircleList(30, 0, 5)).toEqual([])
+    expect(player.collisionLine(-20, 0, 20, 0, 'Orb')).toBe(orb)
+    expect(player.collisionLineList(8, 12, 12, 8)).toEqual([])
+  })
+
+  it('ignores inactive and destroyed instances', () => {
+    const player = box(engine, 'Player', 0, 0)
+    const inactive = box(engine, 'Wall', 10, 0)
+    const destroyed = box(engine, 'Wall', 0, 10)
+
+    inactive.active = false
+    destroyed.destroy()
+
+    expect(player.instancePlaceList(5, 5)).toEqual([])
+    expect(engine.getObjectManager().collisionPoint(10, 0)).toBeNull()
+  })
+
+  it('requires the instance to be registered with a manager', () => {
+    const loose = new GameObject('Loose', { collisionMask: new RectangleMask(-8, -8, 8, 8) })
+
+    expect(() => loose.placeMeeting(0, 0)).toThrow(/not registered/)
+  })
+})
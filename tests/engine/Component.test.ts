@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Component, Engine, GameObject, type ObjectErrorEvent } from '../../src/engine/index.ts'
+
+class Counter extends Component {
+  public steps = 0
+
+  onStep() {
+    this.steps++
+  }
+}
+
+class Health extends Counter {}
+
+class Broken extends Component {
+  onStep() {
+    throw new Error('broken component')
+  }
+}
+
+class Cleanup extends Component {
+  public destroyed = false
+
+  onDestroy() {
+    this.destroyed = true
+  }
+}
+
+describe('components', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('runs component hooks even when the owner\'s own event throws', () => {
+    const engine = new Engine({ headless: true })
+    const owner = new GameObject('Owner')
+    owner.onStep = () => { throw new Error('broken step') }
+    const counter = owner.addComponent(new Counter())
+    engine.addGameObject(owner)
+
+    engine.tick(2)
+
+    expect(counter.steps).toBe(2)
+  })
+
+  it('isolates a failing component from the components after it', () => {
+    const engine = new Engine({ headless: true })
+    const owner = new GameObject('Owner')
+    owner.addComponent(new Broken())
+    const counter = owner.addComponent(new Counter())
+    engine.addGameObject(owner)
+
+    engine.tick(2)
+
+    expect(counter.steps).toBe(2)
+    expect(engine.getErrorPolicy().getConsecutiveErrors(owner, 'step:Broken')).toBe(2)
+  })
+
+  it('isolates and reports a failing component onDestroy so the object is still removed', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const owner = new GameObject('Owner')
+    const broken = owner.addComponent(new Broken())
+    broken.onDestroy = () => { throw new Error('broken cleanup') }
+    const cleanup = owner.addComponent(new Cleanup())
+    engine.addGameObject(owner)
+
+    const errors: ObjectErrorEvent[] = []
+    engine.getEventManager().addEventListener('object_error', data => { errors.push(data) })
+
+    expect(() => owner.destroy()).not.toThrow()
+    engine.tick(1)
+
+    expect(cleanup.destroyed).toBe(true)
+    expect(errors.map(event => event.phase)).toEqual(['destroy:Broken'])
+    expect(manager.getObject(owner.id)).toBeUndefined()
+  })
+
+  it('skips the component hooks of objects without components', () => {
+    const engine = new Engine({ headless: true })
+    const plain = new GameObject('Plain')
+    engine.addGameObject(plain)
+    const getComponents = vi.spyOn(plain, 'getComponents')
+
+    engine.tick(2)
+
+    expect(getComponents).not.toHaveBeenCalled()
+  })
+
+  it('indexes components by type, including base classes', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const a = new GameObject('A')
+    const b = new GameObject('B')
+    const health = a.addComponent(new Health())
+    engine.addGameObject(a)
+    engine.addGameObject(b)
+    const counter = b.addComponent(new Counter())
+
+    expect(manager.getObjectsWithComponent(Health)).toEqual([a])
+    expect(manager.getObjectsWithComponent(Counter)).toEqual([a, b])
+    expect(manager.getAllComponents(Counter)).toEqual([health, counter])
+
+    a.removeComponent(Health)
+    expect(manager.getObjectsWithComponent(Counter)).toEqual([b])
+    expect(manager.getAllComponents(Health)).toEqual([])
+
+    b.destroy()
+    engine.tick(1)
+    expect(manager.getObjectsWithComponent(Counter)).toEqual([])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, Coroutine, waitFrames, type ObjectErrorEvent } from '../../src/engine/index.ts'
+
+describe('coroutines', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('resumes after waitFrames on the right step', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Runner')
+    engine.addGameObject(obj)
+
+    const log: number[] = []
+    let step = 0
+    obj.onStepBegin = () => { step++ }
+    obj.startCoroutine(function* () {
+      log.push(step)
+      yield waitFrames(3)
+      log.push(step)
+    })
+
+    engine.tick(5)
+
+    expect(log).toEqual([1, 4])
+  })
+
+  it('keeps running the other coroutines when one throws, and prunes the failed one', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Runner')
+    engine.addGameObject(obj)
+
+    const errors: ObjectErrorEvent[] = []
+    engine.getEventManager().addEventListener('object_error', (event: ObjectErrorEvent) => { errors.push(event) })
+
+    let ticks = 0
+    const failing = obj.startCoroutine(function* () {
+      yield
+      throw new Error('coroutine failure')
+    })
+    obj.startCoroutine(function* () {
+      while (true) {
+        ticks++
+        yield
+      }
+    })
+
+    engine.tick(4)
+
+    expect(ticks).toBe(4)
+    expect(failing.isFinished()).toBe(true)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toMatchObject({ object: obj, phase: 'coroutines', consecutiveErrors: 1 })
+    expect((errors[0].error as Error).message).toBe('coroutine failure')
+    expect(console.error).toHaveBeenCalledTimes(1)
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Error executing coroutines on Runner'), errors[0].error)
+    // The failure streak ended once the surviving coroutine stepped cleanly
+    expect(engine.getErrorPolicy().getConsecutiveErrors(obj, 'coroutines')).toBe(0)
+  })
+
+  it('can stop itself from inside its own body', () => {
+    const obj = new GameObject('Runner')
+    let cleanedUp = false
+    let after = false
+
+    const coroutine: Coroutine = obj.startCoroutine(function* () {
+      try {
+        yield
+        obj.stopCoroutine(coroutine)
+        yield
+        after = true
+      } finally {
+        cleanedUp = true
+      }
+    })
+
+    obj.updateCoroutines()
+    expect(() => obj.updateCoroutines()).not.toThrow()
+    obj.updateCoroutines()
+
+    expect(coroutine.isFinished()).toBe(true)
+    expect(cleanedUp).toBe(true)
+    expect(after).toBe(false)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, RectangleMask, type GameObjectProperties } from '../../src/engine/index.ts'
+
+class Counter extends GameObject {
+  public steps = 0
+  public draws = 0
+
+  onStep() { this.steps++ }
+  onDraw() { this.draws++ }
+}
+
+describe('instance deactivation', () => {
+  let engine: Engine
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    engine = new Engine({ headless: true })
+  })
+
+  function add(objectType: string, x: number, y: number, properties: GameObjectProperties = {}): Counter {
+    const obj = new Counter(objectType, { x, y, ...properties })
+    engine.addGameObject(obj)
+    return obj
+  }
+
+  it('deactivates instances inside a region, which then skip step and draw', () => {
+    const inside = add('Tree', 10, 10)
+    const outside = add('Tree', 200, 10)
+    const manager = engine.getObjectManager()
+
+    expect(manager.deactivateRegion(0, 0, 100, 100)).toBe(1)
+    engine.tick(2)
+
+    expect(inside.active).toBe(false)
+    expect(inside.steps).toBe(0)
+    expect(inside.draws).toBe(0)
+    expect(outside.steps).toBe(2)
+    expect(manager.getAllInactiveObjects()).toEqual([inside])
+  })
+
+  it('uses collision bounds, so an instance whose mask reaches into the region counts', () => {
+    const reaching = add('Wall', 110, 50, { collisionMask: new RectangleMask(-16, -16, 16, 16) })
+    const point = add('Wall', 110, 50)
+
+    expect(engine.getObjectManager().deactivateRegion(0, 0, 100, 100)).toBe(1)
+
+    expect(reaching.active).toBe(false)
+    expect(point.active).toBe(true)
+  })
+
+  it('deactivates everything outside a view but the caller, then reactivates it', () => {
+    const player = add('Player', 500, 500)
+    const near = add('Enemy', 50, 50)
+    const far = add('Enemy', 900, 900)
+    const manager = engine.getObjectManager()
+
+    expect(manager.deactivateRegion(0, 0, 100, 100, false, player)).toBe(1)
+    expect([player.active, near.active, far.active]).toEqual([true, true, false])
+
+    expect(manager.activateRegion(0, 0, 100, 100)).toBe(0)
+    expect(manager.activateRegion(0, 0, 100, 100, false)).toBe(1)
+    expect(far.active).toBe(true)
+  })
+
+  it('deactivates by type (with descendants), tag or instance', () => {
+    GameObject.setObjectParent('DOrc', 'DEnemy')
+    const orc = add('DOrc', 0, 0)
+    const enemy = add('DEnemy', 0, 0)
+    const crate = add('DCrate', 0, 0, { tags: ['loot'] })
+    const manager = engine.getObjectManager()
+
+    expect(manager.deactivateObject('DEnemy', enemy)).toBe(1)
+    expect(orc.active).toBe(false)
+    expect(manager.deactivateObject({ tag: 'loot' })).toBe(1)
+    expect(manager.activateObject(orc)).toBe(1)
+    expect([orc.active, enemy.active, crate.active]).toEqual([true, true, false])
+  })
+
+  it('deactivates all but one instance and skips instances being destroyed', () => {
+    const keeper = add('Menu', 0, 0)
+    const doomed = add('Bullet', 0, 0)
+    const other = add('Bullet', 0, 0)
+    const manager = engine.getObjectManager()
+
+    doomed.destroy()
+    expect(manager.deactivateAll(keeper)).toBe(1)
+    expect(other.active).toBe(false)
+    expect(keeper.active).toBe(true)
+
+    expect(manager.activateAll()).toBe(1)
+    expect(other.active).toBe(true)
+  })
+
+  it('stops an instance deactivated earlier in the same step', () => {
+    const victim = add('Victim', 0, 0)
+    const switcher = add('Switcher', 0, 0)
+    // Runs after victim in instance order, but deactivates it before the draw phase
+    switcher.onStep = () => { victim.active = false }
+
+    engine.tick(1)
+
+    expect(victim.steps).toBe(1)
+    expect(victim.draws).toBe(0)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+class Recorder extends GameObject {
+  public calls: string[] = []
+
+  constructor() {
+    super('Recorder')
+  }
+
+  onStepBegin() { this.calls.push('stepBegin') }
+  onStep() { this.calls.push('step') }
+  onStepEnd() { this.calls.push('stepEnd') }
+  onDraw() { this.calls.push('draw') }
+}
+
+describe('Engine (headless)', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('runs without a canvas', () => {
+    const engine = new Engine({ headless: true })
+    expect(engine.isHeadless()).toBe(true)
+    expect(() => engine.tick(3)).not.toThrow()
+  })
+
+  it('runs one fixed step and one draw per tick, in phase order', () => {
+    const engine = new Engine({ headless: true })
+    const recorder = new Recorder()
+    engine.addGameObject(recorder)
+
+    engine.tick(2)
+
+    expect(recorder.calls).toEqual([
+      'stepBegin', 'step', 'stepEnd', 'draw',
+      'stepBegin', 'step', 'stepEnd', 'draw'
+    ])
+  })
+
+  it('moves objects by their speed once per step', () => {
+    const engine = new Engine({ headless: true })
+    const mover = new GameObject('Mover', { x: 0, y: 0, hspeed: 2 })
+    engine.addGameObject(mover)
+
+    engine.tick(5)
+
+    expect(mover.x).toBe(10)
+    expect(mover.xPrevious).toBe(8)
+  })
+})
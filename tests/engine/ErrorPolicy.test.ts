@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, type ObjectErrorEvent } from '../../src/engine/index.ts'
+
+class Faulty extends GameObject {
+  public steps = 0
+
+  constructor() {
+    super('Faulty')
+  }
+
+  onStep() {
+    this.steps++
+    throw new Error('broken step')
+  }
+}
+
+describe('error policy', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('halts a strict engine without rethrowing and emits engine_halted', () => {
+    const engine = new Engine({ headless: true, errorPolicy: { strict: true } })
+    const faulty = new Faulty()
+    const later = new GameObject('Later', { hspeed: 1 })
+    engine.addGameObject(faulty)
+    engine.addGameObject(later)
+
+    const halted: ObjectErrorEvent[] = []
+    engine.getEventManager().addEventListener('engine_halted', data => { halted.push(data) })
+
+    expect(() => engine.tick(3)).not.toThrow()
+
+    expect(faulty.steps).toBe(1)
+    expect(later.x).toBe(0)
+    expect(engine.getHaltError()?.object).toBe(faulty)
+    expect(halted).toHaveLength(1)
+  })
+
+  it('reports and counts a throwing timer callback without stopping the frame', () => {
+    const engine = new Engine({ headless: true })
+    const broken = new GameObject('Broken')
+    const other = new GameObject('Other')
+    let otherFired = false
+    broken.setTimer('boom', 1, () => { throw new Error('broken timer') })
+    other.setTimer('ok', 1, () => { otherFired = true })
+    engine.addGameObject(broken)
+    engine.addGameObject(other)
+
+    const errors: ObjectErrorEvent[] = []
+    engine.getEventManager().addEventListener('object_error', data => { errors.push(data) })
+
+    expect(() => engine.tick(1)).not.toThrow()
+
+    expect(otherFired).toBe(true)
+    expect(errors.map(event => [event.object, event.phase])).toEqual([[broken, 'timer']])
+    expect(engine.getErrorPolicy().getConsecutiveErrors(broken, 'timer')).toBe(1)
+    expect(console.error).toHaveBeenCalledTimes(1)
+  })
+
+  it('throttles errors per instance and phase even when the message changes', () => {
+    const engine = new Engine({ headless: true })
+    const drifting = new GameObject('Drifting')
+    let frame = 0
+    drifting.onStep = () => { throw new Error(`bad position at frame ${++frame}`) }
+    engine.addGameObject(drifting)
+
+    const now = vi.spyOn(performance, 'now').mockReturnValue(0)
+    engine.tick(5)
+    expect(console.error).toHaveBeenCalledTimes(1)
+
+    now.mockReturnValue(1000)
+    engine.tick(1)
+    expect(console.error).toHaveBeenCalledTimes(2)
+    expect(vi.mocked(console.error).mock.calls[1][0]).toContain('(4 errors suppressed, last: bad position at frame 5)')
+    now.mockRestore()
+  })
+
+  it('forgets the failure history of destroyed objects', () => {
+    const engine = new Engine({ headless: true })
+    const faulty = new Faulty()
+    engine.addGameObject(faulty)
+    engine.tick(1)
+
+    const policy = engine.getErrorPolicy()
+    expect(policy.getConsecutiveErrors(faulty, 'step')).toBe(1)
+
+    faulty.destroy()
+    engine.tick(1)
+
+    expect(policy.getConsecutiveErrors(faulty, 'step')).toBe(0)
+    expect(engine.getObjectManager().getObject(faulty.id)).toBeUndefined()
+  })
+})
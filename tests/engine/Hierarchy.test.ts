@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+describe('object parents', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('indexes descendant types when parents change', () => {
+    GameObject.setObjectParent('HOrc', 'HEnemy')
+    GameObject.setObjectParent('HOrcChief', 'HOrc')
+
+    expect([...GameObject.getDescendantTypes('HEnemy')].sort()).toEqual(['HOrc', 'HOrcChief'])
+    expect(GameObject.getDescendantTypes('HOrc')).toEqual(['HOrcChief'])
+
+    GameObject.setObjectParent('HOrcChief', null)
+    expect(GameObject.getDescendantTypes('HEnemy')).toEqual(['HOrc'])
+    expect(GameObject.getDescendantTypes('HOrc')).toEqual([])
+  })
+
+  it('rejects circular hierarchies', () => {
+    GameObject.setObjectParent('HChild', 'HParent')
+    expect(() => GameObject.setObjectParent('HParent', 'HChild')).toThrow(/circular/)
+    expect(GameObject.getDescendantTypes('HChild')).toEqual([])
+  })
+
+  it('returns parent-type queries in instance order across child types', () => {
+    GameObject.setObjectParent('QSlime', 'QMonster')
+    GameObject.setObjectParent('QBat', 'QMonster')
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+
+    const slime = manager.createObject('QSlime')
+    const bat = manager.createObject('QBat')
+    const monster = manager.createObject('QMonster')
+    const slime2 = manager.createObject('QSlime')
+    manager.createObject('QTree')
+
+    expect(manager.getObjectsByType('QMonster')).toEqual([slime, bat, monster, slime2])
+    expect(manager.getObjectCount('QMonster')).toBe(4)
+    expect(manager.getObjectsByType('QSlime')).toEqual([slime, slime2])
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+class Tracer extends GameObject {
+  public drawn: number[] = []
+
+  onDraw() { this.drawn.push(this.getDrawX()) }
+}
+
+describe('render interpolation', () => {
+  let now = 0
+
+  beforeEach(() => {
+    now = 0
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+    vi.stubGlobal('requestAnimationFrame', vi.fn(() => 1))
+    vi.stubGlobal('cancelAnimationFrame', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  // Drive one requestAnimationFrame callback of the real-time loop at a given time
+  function frameAt(engine: Engine, time: number): void {
+    now = time
+    engine['gameLoop']()
+  }
+
+  function createEngine(interpolation: boolean = true): { engine: Engine, tracer: Tracer } {
+    // 50 steps per second, so one step is 20ms
+    const engine = new Engine({ headless: true, targetFPS: 50, interpolation })
+    const tracer = new Tracer('Tracer', { x: 0, y: 0, hspeed: 10 })
+    engine.addGameObject(tracer)
+    engine.start()
+    return { engine, tracer }
+  }
+
+  it('draws between the previous and current step by the leftover fraction of a step', () => {
+    const { engine, tracer } = createEngine()
+
+    frameAt(engine, 30)
+
+    expect(tracer.x).toBe(10)
+    expect(engine.getInterpolationAlpha()).toBeCloseTo(0.5)
+    expect(tracer.drawn[0]).toBeCloseTo(5)
+
+    // No step is due yet - only the drawn position advances
+    frameAt(engine, 35)
+    expect(tracer.x).toBe(10)
+    expect(tracer.drawn[1]).toBeCloseTo(7.5)
+  })
+
+  it('draws at the stepped position when interpolation is disabled', () => {
+    const { engine, tracer } = createEngine(false)
+
+    frameAt(engine, 30)
+
+    expect(engine.getInterpolationAlpha()).toBe(1)
+    expect(tracer.drawn).toEqual([10])
+  })
+
+  it('lets instances opt out or snap after a teleport', () => {
+    const { engine, tracer } = createEngine()
+    const fixed = new Tracer('Fixed', { x: 0, y: 0, hspeed: 10, interpolate: false })
+    engine.addGameObject(fixed)
+
+    frameAt(engine, 30)
+    expect(fixed.drawn).toEqual([10])
+
+    tracer.x = 500
+    tracer.resetInterpolation()
+    frameAt(engine, 35)
+    expect(tracer.drawn[1]).toBe(500)
+  })
+
+  it('always draws the latest step when ticked manually', () => {
+    const engine = new Engine({ headless: true })
+    const tracer = new Tracer('Tracer', { x: 0, y: 0, hspeed: 10 })
+    engine.addGameObject(tracer)
+
+    engine.tick(2)
+
+    expect(tracer.drawn).toEqual([10, 20])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+describe('built-in motion', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('keeps speed/direction and hspeed/vspeed in sync', () => {
+    const obj = new GameObject('Mover')
+
+    obj.direction = 90
+    obj.speed = 3
+    expect(obj.hspeed).toBe(0)
+    expect(obj.vspeed).toBe(-3)
+
+    obj.hspeed = 3
+    obj.vspeed = 4
+    expect(obj.speed).toBe(5)
+    expect(obj.direction).toBeCloseTo(306.87, 2)
+  })
+
+  it('wraps direction into 0-360 and keeps it when the instance stops', () => {
+    const obj = new GameObject('Mover', { speed: 2, direction: -90 })
+    expect(obj.direction).toBe(270)
+    expect(obj.vspeed).toBe(2)
+
+    obj.direction = 450
+    expect(obj.direction).toBe(90)
+
+    obj.vspeed = 0
+    expect(obj.speed).toBe(0)
+    expect(obj.direction).toBe(90)
+  })
+
+  it('sets and adds motion vectors like motion_set and motion_add', () => {
+    const obj = new GameObject('Mover')
+
+    obj.motionSet(0, 4)
+    obj.motionAdd(90, 3)
+
+    expect(obj.hspeed).toBeCloseTo(4)
+    expect(obj.vspeed).toBeCloseTo(-3)
+    expect(obj.speed).toBeCloseTo(5)
+  })
+
+  it('moves between the step and step end events', () => {
+    const engine = new Engine({ headless: true })
+    const seen: string[] = []
+    const obj = new GameObject('Mover', { x: 0, y: 0, hspeed: 2 })
+    obj.onStep = () => { seen.push(`step:${obj.x}`) }
+    obj.onStepEnd = () => { seen.push(`stepEnd:${obj.x}`) }
+    engine.addGameObject(obj)
+
+    engine.tick(2)
+
+    expect(seen).toEqual(['step:0', 'stepEnd:2', 'step:2', 'stepEnd:4'])
+  })
+
+  it('slows down by friction without reversing', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Mover', { x: 0, speed: 2.5, direction: 180, friction: 1 })
+    engine.addGameObject(obj)
+
+    engine.tick(4)
+
+    // Speeds 1.5, 0.5, 0, 0 - moving left the whole time
+    expect(obj.x).toBeCloseTo(-2)
+    expect(obj.speed).toBe(0)
+    expect(obj.direction).toBe(180)
+  })
+
+  it('accelerates along the gravity direction every step', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Faller', { x: 0, y: 0, gravity: 1 })
+    engine.addGameObject(obj)
+
+    engine.tick(3)
+
+    expect(obj.vspeed).toBeCloseTo(3)
+    expect(obj.y).toBeCloseTo(6)
+    expect(obj.x).toBeCloseTo(0)
+
+    obj.gravityDirection = 0
+    obj.vspeed = 0
+    engine.tick(1)
+    expect(obj.hspeed).toBeCloseTo(1)
+  })
+
+  it('freezes motion while the engine is paused', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Mover', { x: 0, hspeed: 1, gravity: 1 })
+    engine.addGameObject(obj)
+
+    engine.pause()
+    engine.tick(3)
+
+    expect(obj.x).toBe(0)
+    expect(obj.vspeed).toBe(0)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Component, Engine, GameObject, RectangleMask } from '../../src/engine/index.ts'
+
+class Trail extends Component {
+  public points: number[] = []
+
+  onStep() {
+    this.points.push(this.gameObject.x)
+  }
+}
+
+class Spark extends Component {}
+
+const HIT_MASK = new RectangleMask(-2, -2, 2, 2)
+
+class Bullet extends GameObject {
+  public damage = 5
+  public hitIds: number[] = []
+
+  constructor() {
+    super('Bullet', { hspeed: 4, collisionMask: HIT_MASK })
+    this.addComponent(new Trail())
+    this.addState({ name: 'flying' })
+    this.addState({ name: 'spent' })
+    this.changeState('flying')
+  }
+}
+
+describe('object pooling', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('rewinds fields, state machine, components and mask of a reused instance', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    manager.registerPool('Bullet', () => new Bullet())
+
+    const bullet = manager.acquire<Bullet>('Bullet', 10, 20)
+    engine.tick(2)
+    bullet.damage = 50
+    bullet.hitIds.push(7)
+    bullet.changeState('spent')
+    bullet.collisionMask = new RectangleMask(-9, -9, 9, 9)
+    const trail = bullet.getComponent(Trail)!
+    bullet.removeComponent(Trail)
+    bullet.addComponent(new Spark())
+    engine.tick(1)
+
+    manager.release(bullet)
+    engine.tick(1)
+
+    const reused = manager.acquire<Bullet>('Bullet', 0, 0)
+    expect(reused).toBe(bullet)
+    expect(reused.damage).toBe(5)
+    expect(reused.hitIds).toEqual([])
+    expect(reused.getState()).toBe('flying')
+    expect(reused.collisionMask).toBe(HIT_MASK)
+    expect(reused.hasComponent(Spark)).toBe(false)
+    expect(reused.getComponent(Trail)).toBe(trail)
+    expect(trail.points).toEqual([])
+    expect(trail.gameObject).toBe(reused)
+    expect(manager.getObjectsWithComponent(Trail)).toEqual([reused])
+  })
+
+  it('gives a reused instance a new id so stale ids are not alive', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    manager.registerPool('Bullet', () => new Bullet())
+
+    const bullet = manager.acquire<Bullet>('Bullet')
+    const staleId = bullet.id
+    manager.release(bullet)
+    engine.tick(1)
+
+    const reused = manager.acquire<Bullet>('Bullet')
+    expect(reused).toBe(bullet)
+    expect(reused.id).not.toBe(staleId)
+    expect(manager.instanceExists(staleId)).toBe(false)
+    expect(manager.getObject(staleId)).toBeUndefined()
+    expect(manager.getObject(reused.id)).toBe(reused)
+  })
+
+  it('acquires and releases without logging', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    manager.registerPool('Bullet', () => new Bullet(), { prewarm: 1 })
+    vi.mocked(console.log).mockClear()
+
+    manager.release(manager.acquire('Bullet'))
+    engine.tick(1)
+    manager.acquire('Bullet')
+
+    expect(console.log).not.toHaveBeenCalled()
+  })
+
+  it('keeps a released instance out of the pool until the end of the frame', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    manager.registerPool('Bullet', () => new Bullet())
+
+    const bullet = manager.acquire<Bullet>('Bullet')
+    let replacement: Bullet | null = null
+    const gun = new GameObject('Gun')
+    gun.onStep = () => {
+      if (replacement) return
+      expect(manager.release(bullet)).toBe(true)
+      expect(manager.release(bullet)).toBe(false)
+      replacement = manager.acquire<Bullet>('Bullet')
+    }
+    engine.addGameObject(gun)
+
+    engine.tick(1)
+
+    expect(replacement).not.toBe(bullet)
+    expect(manager.getObject(bullet.id)).toBeUndefined()
+    expect(manager.getPoolStats().Bullet).toMatchObject({ created: 2, inUse: 1, available: 1 })
+  })
+})
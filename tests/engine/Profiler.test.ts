@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Engine, GameObject, type ProfilerSample } from '../../src/engine/index.ts'
+
+let now = 0
+
+// Advances the fake clock by a fixed cost each step, so timings are exact
+class Worker extends GameObject {
+  private cost: number
+
+  constructor(objectType: string, cost: number) {
+    super(objectType)
+    this.cost = cost
+  }
+
+  onStep() { now += this.cost }
+}
+
+function stepSamples(samples: ProfilerSample[]): ProfilerSample[] {
+  return samples.filter(sample => sample.phase === 'step')
+}
+
+describe('profiler', () => {
+  beforeEach(() => {
+    now = 0
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function createEngine(): Engine {
+    const engine = new Engine({ headless: true })
+    engine.addGameObject(new Worker('Slow', 3))
+    engine.addGameObject(new Worker('Fast', 1))
+    engine.addGameObject(new Worker('Fast', 1))
+    return engine
+  }
+
+  it('records nothing until enabled', () => {
+    const engine = createEngine()
+
+    engine.tick(2)
+
+    expect(engine.getProfiler().getLastCapture()).toBeNull()
+  })
+
+  it('captures time and calls per object type and phase for each frame', () => {
+    const engine = createEngine()
+    const profiler = engine.getProfiler()
+    profiler.enable()
+
+    engine.tick(1)
+
+    const capture = profiler.getLastCapture()!
+    expect(capture.frame).toBe(0)
+    expect(capture.frameTime).toBe(5)
+    expect(capture.phases.step).toBe(5)
+    expect(stepSamples(capture.samples)).toEqual([
+      { objectType: 'Slow', phase: 'step', time: 3, calls: 1 },
+      { objectType: 'Fast', phase: 'step', time: 2, calls: 2 }
+    ])
+    expect(JSON.parse(profiler.exportCapture())).toEqual(capture)
+  })
+
+  it('averages samples over recent frames and sorts them by the chosen key', () => {
+    const engine = createEngine()
+    const profiler = engine.getProfiler()
+    profiler.enable()
+
+    engine.tick(4)
+
+    const byTime = stepSamples(profiler.getSortedSamples())
+    expect(byTime.map(sample => sample.objectType)).toEqual(['Slow', 'Fast'])
+    expect(byTime[0]).toMatchObject({ time: 3, calls: 1 })
+
+    profiler.setSortKey('calls')
+    expect(stepSamples(profiler.getSortedSamples()).map(sample => sample.objectType)).toEqual(['Fast', 'Slow'])
+
+    expect(profiler.cycleSortKey()).toBe('average')
+    expect(stepSamples(profiler.getSortedSamples()).map(sample => sample.objectType)).toEqual(['Slow', 'Fast'])
+
+    expect(profiler.cycleSortKey()).toBe('name')
+    expect(profiler.cycleSortKey()).toBe('time')
+  })
+
+  it('discards collected data when disabled', () => {
+    const engine = createEngine()
+    const profiler = engine.getProfiler()
+    profiler.enable()
+    engine.tick(2)
+
+    profiler.disable()
+
+    expect(profiler.isEnabled()).toBe(false)
+    expect(profiler.getLastCapture()).toBeNull()
+    expect(profiler.getSortedSamples()).toEqual([])
+  })
+
+  it('draws the overlay after the draw phase once shown', () => {
+    const engine = createEngine()
+    const profiler = engine.getProfiler()
+    const drawText = vi.spyOn(engine.getDrawingSystem(), 'drawText')
+
+    profiler.showOverlay()
+    engine.tick(2)
+
+    expect(profiler.isEnabled()).toBe(true)
+    expect(drawText).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), expect.stringContaining('Slow'), expect.any(Number))
+
+    drawText.mockClear()
+    profiler.hideOverlay()
+    engine.tick(1)
+    expect(drawText).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, type State } from '../../src/engine/index.ts'
+
+class Guard extends GameObject {
+  public log: string[] = []
+
+  constructor() {
+    super('Guard')
+  }
+
+  onStep() { this.log.push(`onStep:${this.getState()}`) }
+  onStepEnd() { this.log.push(`onStepEnd:${this.getState()}`) }
+  onDraw() { this.log.push('onDraw') }
+}
+
+function loggingState(name: string, overrides: Partial<State<Guard>> = {}): State<Guard> {
+  return {
+    name,
+    enter: (owner, previous) => { owner.log.push(`enter:${name}<-${previous}`) },
+    exit: (owner, next) => { owner.log.push(`exit:${name}->${next}`) },
+    ...overrides
+  }
+}
+
+describe('state machine', () => {
+  let engine: Engine
+  let guard: Guard
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    engine = new Engine({ headless: true })
+    guard = new Guard()
+    engine.addGameObject(guard)
+  })
+
+  it('enters the first state immediately', () => {
+    guard.addState(loggingState('idle'))
+
+    guard.changeState('idle')
+
+    expect(guard.getState()).toBe('idle')
+    expect(guard.log).toEqual(['enter:idle<-null'])
+  })
+
+  it('runs state hooks after the owner events and applies transitions after step end', () => {
+    guard.addState(loggingState('idle', {
+      step: owner => {
+        owner.log.push('idle:step')
+        owner.changeState('chase')
+      },
+      draw: owner => { owner.log.push('idle:draw') }
+    }))
+    guard.addState(loggingState('chase'))
+    guard.changeState('idle')
+    guard.log.length = 0
+
+    engine.tick(2)
+
+    expect(guard.log).toEqual([
+      'onStep:idle', 'idle:step', 'onStepEnd:idle', 'exit:idle->chase', 'enter:chase<-idle', 'onDraw',
+      'onStep:chase', 'onStepEnd:chase', 'onDraw'
+    ])
+  })
+
+  it('applies only the last transition requested during a step', () => {
+    guard.addState(loggingState('idle'))
+    guard.addState(loggingState('chase'))
+    guard.addState(loggingState('flee'))
+    guard.changeState('idle')
+    guard.log.length = 0
+
+    guard.changeState('chase')
+    guard.changeState('flee')
+    engine.tick(1)
+
+    expect(guard.isInState('flee')).toBe(true)
+    expect(guard.log).not.toContain('enter:chase<-idle')
+  })
+
+  it('returns to previous states through the history', () => {
+    for (const name of ['idle', 'patrol', 'alert']) guard.addState(loggingState(name))
+    const machine = guard.getStateMachine()
+
+    expect(guard.returnToPreviousState()).toBe(false)
+    guard.changeState('idle')
+    guard.changeState('patrol')
+    engine.tick(1)
+    guard.changeState('alert')
+    engine.tick(1)
+    expect(machine.getHistory()).toEqual(['idle', 'patrol'])
+
+    expect(guard.returnToPreviousState()).toBe(true)
+    engine.tick(1)
+    expect(guard.getState()).toBe('patrol')
+    expect(machine.getHistory()).toEqual(['idle'])
+  })
+
+  it('keeps only the most recent 16 states in the history', () => {
+    guard.addState(loggingState('a'))
+    guard.addState(loggingState('b'))
+    const machine = guard.getStateMachine()
+    guard.changeState('a')
+
+    for (let i = 0; i < 20; i++) {
+      guard.changeState(i % 2 === 0 ? 'b' : 'a')
+      machine.applyPendingTransition()
+    }
+
+    expect(machine.getHistory()).toHaveLength(16)
+  })
+
+  it('rejects unknown states', () => {
+    guard.addState(loggingState('idle'))
+
+    expect(() => guard.changeState('sleep')).toThrow(/State 'sleep' not found on Guard/)
+  })
+
+  it('gives clones the current state without entering it again', () => {
+    guard.addState(loggingState('idle'))
+    guard.addState(loggingState('chase'))
+    guard.changeState('idle')
+    guard.changeState('chase')
+    engine.tick(1)
+
+    const copy = guard.clone()
+    copy.log = []
+
+    expect(copy.getState()).toBe('chase')
+    expect(copy.log).toEqual([])
+    expect(copy.getStateMachine()).not.toBe(guard.getStateMachine())
+
+    copy.returnToPreviousState()
+    engine.tick(1)
+    expect(copy.getState()).toBe('idle')
+    expect(guard.getState()).toBe('chase')
+  })
+})
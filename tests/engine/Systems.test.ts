@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, EnginePhase, GameObject, SystemRegistry, type EngineSystem, type EngineSystemContext } from '../../src/engine/index.ts'
+
+function tracingSystem(name: string, log: string[], priority?: number): EngineSystem {
+  return {
+    name,
+    priority,
+    beforePhase: phase => { log.push(`${name}:before:${phase}`) },
+    afterPhase: phase => { log.push(`${name}:after:${phase}`) }
+  }
+}
+
+describe('engine systems', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('wraps every loop phase, in phase order, around the object events', () => {
+    const engine = new Engine({ headless: true })
+    const log: string[] = []
+    engine.registerSystem(tracingSystem('trace', log))
+    const obj = new GameObject('Probe')
+    obj.onStep = () => { log.push('object:step') }
+    engine.addGameObject(obj)
+
+    engine.tick(1)
+
+    const expected: string[] = []
+    for (const phase of Object.values(EnginePhase)) {
+      expected.push(`trace:before:${phase}`)
+      if (phase === EnginePhase.STEP) expected.push('object:step')
+      expected.push(`trace:after:${phase}`)
+    }
+    expect(log).toEqual(expected)
+  })
+
+  it('runs systems by ascending priority, keeping registration order for ties', () => {
+    const engine = new Engine({ headless: true })
+    const log: string[] = []
+    engine.registerSystem(tracingSystem('late', log, 10))
+    engine.registerSystem(tracingSystem('first', log))
+    engine.registerSystem(tracingSystem('second', log))
+    engine.registerSystem(tracingSystem('early', log, -5))
+
+    expect(engine.getSystems().map(system => system.name)).toEqual(['early', 'first', 'second', 'late'])
+
+    engine.tick(1)
+    expect(log.slice(0, 4)).toEqual(['early:before:input', 'first:before:input', 'second:before:input', 'late:before:input'])
+  })
+
+  it('passes the engine, manager and stepping objects to hooks', () => {
+    const engine = new Engine({ headless: true })
+    const obj = new GameObject('Probe')
+    engine.addGameObject(obj)
+    const contexts: EngineSystemContext[] = []
+    engine.registerSystem({
+      name: 'inspector',
+      beforePhase: (phase, context) => {
+        if (phase === EnginePhase.STEP) contexts.push(context)
+      }
+    })
+
+    engine.tick(1)
+
+    expect(contexts).toHaveLength(1)
+    expect(contexts[0]).toMatchObject({ objects: [obj], paused: false })
+    expect(contexts[0].engine).toBe(engine)
+    expect(contexts[0].objectManager).toBe(engine.getObjectManager())
+  })
+
+  it('calls the register hooks and stops running a removed system', () => {
+    const engine = new Engine({ headless: true })
+    const log: string[] = []
+    const system: EngineSystem = {
+      ...tracingSystem('plugin', log),
+      onRegister: registered => { log.push(registered === engine ? 'registered' : 'wrong engine') },
+      onUnregister: () => { log.push('unregistered') }
+    }
+
+    engine.registerSystem(system)
+    expect(engine.getSystem('plugin')).toBe(system)
+    expect(engine.unregisterSystem('plugin')).toBe(true)
+    expect(engine.unregisterSystem('plugin')).toBe(false)
+    engine.tick(1)
+
+    expect(log).toEqual(['registered', 'unregistered'])
+    expect(engine.getSystem('plugin')).toBeUndefined()
+  })
+
+  it('rejects duplicate and reserved names', () => {
+    const engine = new Engine({ headless: true })
+    engine.registerSystem({ name: 'audio' })
+
+    expect(() => engine.registerSystem({ name: 'audio' })).toThrow(/already registered/)
+    expect(() => engine.registerSystem({ name: 'dgc:audio' })).toThrow(/reserved/)
+    expect(() => new SystemRegistry().register({ name: 'physics' }, true)).toThrow(/prefix/)
+  })
+
+  it('keeps running other systems and the loop when a hook throws', () => {
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const engine = new Engine({ headless: true })
+    const log: string[] = []
+    engine.registerSystem({
+      name: 'broken',
+      beforePhase: phase => {
+        if (phase === EnginePhase.STEP) throw new Error('system failure')
+      }
+    })
+    engine.registerSystem(tracingSystem('healthy', log))
+
+    engine.tick(1)
+
+    expect(log).toContain('healthy:before:step')
+    expect(log).toContain('healthy:after:frame_end')
+    expect(errors).toHaveBeenCalledWith(expect.stringContaining("'broken' before step"), expect.any(Error))
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+class Drone extends GameObject {
+  constructor() {
+    super('Drone', { tags: ['hostile'] })
+  }
+}
+
+describe('tag index', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('indexes constructor tags and follows addTag/removeTag', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const drone = new Drone()
+    const crate = new GameObject('Crate')
+    engine.addGameObject(drone)
+    engine.addGameObject(crate)
+
+    crate.addTag('hostile', 'breakable')
+    expect(manager.getObjectsByTag('hostile')).toEqual([drone, crate])
+    expect(manager.getObjectCount({ tag: 'breakable' })).toBe(1)
+
+    drone.removeTag('hostile')
+    crate.removeTag('breakable')
+    expect(manager.getObjectsByTag('hostile')).toEqual([crate])
+    expect(manager.getTags()).toEqual(['hostile'])
+  })
+
+  it('drops destroyed instances from the index at the end of the frame', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const drone = new Drone()
+    engine.addGameObject(drone)
+
+    drone.destroy()
+    engine.tick(1)
+
+    expect(manager.getTagCount('hostile')).toBe(0)
+    // Tag changes on a removed instance don't reach the index
+    drone.addTag('ghost')
+    expect(manager.getTags()).toEqual([])
+  })
+
+  it('indexes clones and reacquired pooled instances with their own tags', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    manager.registerPool('Drone', () => new Drone())
+
+    const drone = manager.acquire('Drone')
+    drone.addTag('leader')
+    const copy = drone.clone()
+    expect(manager.getObjectsByTag('leader')).toEqual([drone, copy])
+
+    manager.release(drone)
+    engine.tick(1)
+    expect(manager.getObjectsByTag('leader')).toEqual([copy])
+
+    const reused = manager.acquire('Drone')
+    expect(reused).toBe(drone)
+    expect(reused.getTags()).toEqual(['hostile'])
+    expect(manager.getObjectsByTag('hostile')).toEqual([copy, reused])
+    expect(manager.getObjectsByTag('leader')).toEqual([copy])
+  })
+
+  it('lists tagged instances in instance order, not tagging order', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const first = new GameObject('Crate')
+    const second = new GameObject('Crate')
+    engine.addGameObject(first)
+    engine.addGameObject(second)
+
+    second.addTag('loot')
+    first.addTag('loot')
+
+    expect(manager.getObjectsByTag('loot')).toEqual([first, second])
+    expect(manager.getObjectsByType({ tag: 'loot' })).toEqual([first, second])
+  })
+
+  it('skips inactive and destroyed instances in tag-filtered distance queries', () => {
+    const engine = new Engine({ headless: true })
+    const manager = engine.getObjectManager()
+    const inactive = new GameObject('Crate', { x: 1, y: 0, tags: ['loot'] })
+    const destroyed = new GameObject('Crate', { x: 2, y: 0, tags: ['loot'] })
+    const live = new GameObject('Crate', { x: 5, y: 0, tags: ['loot'] })
+    engine.addGameObject(inactive)
+    engine.addGameObject(destroyed)
+    engine.addGameObject(live)
+
+    inactive.active = false
+    destroyed.destroy()
+
+    expect(manager.getNearestObject(0, 0, { tag: 'loot' })).toBe(live)
+    expect(manager.getObjectsNear(0, 0, 10, { tag: 'loot' })).toEqual([live])
+    expect(manager.getNearestObject(0, 0, 'Crate')).toBe(live)
+  })
+})
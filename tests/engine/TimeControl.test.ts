@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Engine, GameObject } from '../../src/engine/index.ts'
+
+class Counter extends GameObject {
+  public steps = 0
+  public draws = 0
+
+  onStep() { this.steps++ }
+  onDraw() { this.draws++ }
+}
+
+describe('pause and frame stepping', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('freezes stepping while paused but keeps drawing and updateWhenPaused objects', () => {
+    const engine = new Engine({ headless: true })
+    const world = new Counter('World', { hspeed: 1 })
+    const menu = new Counter('Menu', { updateWhenPaused: true })
+    engine.addGameObject(world)
+    engine.addGameObject(menu)
+
+    engine.pause()
+    engine.tick(3)
+
+    expect(engine.isPaused()).toBe(true)
+    expect(world.steps).toBe(0)
+    expect(world.x).toBe(0)
+    expect(world.draws).toBe(3)
+    expect(menu.steps).toBe(3)
+
+    engine.resume()
+    engine.tick(1)
+    expect(world.steps).toBe(1)
+    expect(world.x).toBe(1)
+  })
+
+  it('runs exactly the queued steps with stepFrames while paused', () => {
+    const engine = new Engine({ headless: true })
+    const world = new Counter('World')
+    engine.addGameObject(world)
+
+    engine.pause()
+    engine.stepFrames(2)
+    engine.tick(4)
+
+    expect(world.steps).toBe(2)
+  })
+
+  it('tells systems whether the world is frozen for the step', () => {
+    const engine = new Engine({ headless: true })
+    const paused: boolean[] = []
+    engine.registerSystem({
+      name: 'watcher',
+      beforePhase: (phase, context) => {
+        if (phase === 'step') paused.push(context.paused)
+      }
+    })
+
+    engine.pause()
+    engine.stepFrames(1)
+    engine.tick(2)
+
+    expect(paused).toEqual([false, true])
+  })
+
+  it('drops queued steps on resume', () => {
+    const engine = new Engine({ headless: true })
+    const world = new Counter('World')
+    engine.addGameObject(world)
+
+    engine.pause()
+    engine.stepFrames(5)
+    engine.resume()
+    engine.pause()
+    engine.tick(2)
+
+    expect(world.steps).toBe(0)
+  })
+})
+
+describe('time scale', () => {
+  let now = 0
+
+  beforeEach(() => {
+    now = 0
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(performance, 'now').mockImplementation(() => now)
+    vi.stubGlobal('requestAnimationFrame', vi.fn(() => 1))
+    vi.stubGlobal('cancelAnimationFrame', vi.fn())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  // Run the real-time loop for a number of 20ms frames (one fixed step each at 50 FPS)
+  function runFrames(engine: Engine, frames: number): void {
+    for (let i = 0; i < frames; i++) {
+      now += 20
+      engine['gameLoop']()
+    }
+  }
+
+  function createEngine(): { engine: Engine, counter: Counter } {
+    const engine = new Engine({ headless: true, targetFPS: 50 })
+    const counter = new Counter('Counter')
+    engine.addGameObject(counter)
+    engine.start()
+    return { engine, counter }
+  }
+
+  it('scales how many fixed steps run per second', () => {
+    const { engine, counter } = createEngine()
+
+    engine.setTimeScale(0.5)
+    runFrames(engine, 4)
+    expect(counter.steps).toBe(2)
+    expect(counter.draws).toBe(4)
+
+    engine.setTimeScale(2)
+    runFrames(engine, 2)
+    expect(counter.steps).toBe(6)
+  })
+
+  it('stops stepping at scale 0 but still honours stepFrames while paused', () => {
+    const { engine, counter } = createEngine()
+
+    engine.setTimeScale(0)
+    runFrames(engine, 3)
+    expect(counter.steps).toBe(0)
+
+    engine.pause()
+    engine.stepFrames(1)
+    runFrames(engine, 3)
+    expect(counter.steps).toBe(1)
+  })
+
+  it('rejects negative and non-numeric scales', () => {
+    const engine = new Engine({ headless: true })
+
+    expect(() => engine.setTimeScale(-1)).toThrow(/Invalid time scale/)
+    expect(() => engine.setTimeScale(NaN)).toThrow(/Invalid time scale/)
+    expect(engine.getTimeScale()).toBe(1)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, VariableType } from '../../src/engine/index.ts'
+
+class Player extends GameObject {
+  public health = 100
+  public title = 'hero'
+
+  constructor() {
+    super('VarPlayer')
+  }
+}
+
+GameObject.defineVariables('VarShop', {
+  gold: { default: 10, min: 0 },
+  name: { default: 'shop' },
+  stock: { default: () => [] as string[] },
+  code: { type: VariableType.STRING, validate: (value: string) => /^[A-Z]{3}$/.test(value) || 'expected three capitals' }
+})
+
+GameObject.defineVariables('VarPlayer', {
+  health: { min: 0, max: 100 },
+  lives: { default: 3, min: 0 }
+})
+
+describe('instance variables and properties', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('reflects subclass fields next to built-ins and variables', () => {
+    const player = new Player()
+    player.setVariable('note', 'hi')
+
+    const info = new Map(player.getPropertyInfo().map(property => [property.name, property]))
+    expect(info.get('x')).toMatchObject({ builtin: true, type: VariableType.NUMBER })
+    expect(info.get('health')).toMatchObject({ builtin: false, declared: true, type: VariableType.NUMBER })
+    expect(info.get('title')).toMatchObject({ builtin: false, declared: false, type: VariableType.STRING })
+    expect(info.get('note')).toMatchObject({ declared: false, type: VariableType.ANY })
+    expect(info.has('customVariables')).toBe(false)
+    expect(info.has('toString')).toBe(false)
+
+    expect(player.getPropertyValues()).toMatchObject({ health: 100, title: 'hero', lives: 3, note: 'hi' })
+  })
+
+  it('reads and writes subclass fields by name, validating declared ones', () => {
+    const player = new Player()
+
+    player.setProperty('health', 40)
+    expect(player.health).toBe(40)
+    expect(player.hasProperty('health')).toBe(true)
+    expect(() => player.setProperty('health', -1)).toThrow('Invalid value for VarPlayer.health')
+    expect(() => player.setProperty('id', 5)).toThrow('read-only')
+    expect(player.hasProperty('toString')).toBe(false)
+  })
+
+  it('notifies change listeners for built-ins and fields set by name', () => {
+    const player = new Player()
+    const changes: unknown[][] = []
+    player.onVariableChanged('x', (value, previous) => { changes.push(['x', value, previous]) })
+    player.onVariableChanged('health', (value, previous) => { changes.push(['health', value, previous]) })
+
+    player.setProperty('x', 12)
+    player.setProperty('x', 12)
+    player.setProperty('health', 80)
+
+    expect(changes).toEqual([['x', 12, 0], ['health', 80, 100]])
+  })
+
+  it('keeps setInstanceProperty lenient about types and the schema', () => {
+    const engine = new Engine({ headless: true })
+    GameObject.setGlobalGameObjectManager(engine.getObjectManager())
+    const player = new Player()
+    engine.addGameObject(player)
+
+    GameObject.setInstanceProperty('VarPlayer', 'x', '12')
+    GameObject.setInstanceProperty('VarPlayer', 'lives', -5)
+
+    expect(player.x).toBe('12')
+    expect(GameObject.getInstanceProperty('VarPlayer', 'lives')).toBe(-5)
+  })
+})
+
+describe('variable schema', () => {
+  it('starts declared variables at their defaults, creating one value per instance', () => {
+    const a = new GameObject('VarShop')
+    const b = new GameObject('VarShop')
+
+    expect(a.getVariable('gold')).toBe(10)
+    a.getVariable<string[]>('stock').push('sword')
+    expect(a.getVariable('stock')).toEqual(['sword'])
+    expect(b.getVariable('stock')).toEqual([])
+  })
+
+  it('validates declared variables by inferred type, range and validator, keeping the old value', () => {
+    const shop = new GameObject('VarShop')
+
+    expect(() => shop.setVariable('name', 5)).toThrow('Invalid value for VarShop.name: expected string, got number')
+    expect(() => shop.setVariable('gold', -1)).toThrow('below the minimum 0')
+    expect(() => shop.setVariable('gold', NaN)).toThrow('expected number')
+    expect(() => shop.setVariable('code', 'abc')).toThrow('expected three capitals')
+    expect(shop.getVariable('gold')).toBe(10)
+
+    shop.setVariable('code', 'ABC')
+    shop.setVariable('anything', { free: true })
+    expect(shop.getVariable('code')).toBe('ABC')
+  })
+
+  it('stops notifying a listener once it is removed', () => {
+    const shop = new GameObject('VarShop')
+    const seen: unknown[][] = []
+    const remove = shop.onVariableChanged('gold', (value, previous, name) => { seen.push([name, value, previous]) })
+
+    shop.setVariable('gold', 20)
+    remove()
+    shop.setVariable('gold', 30)
+
+    expect(seen).toEqual([['gold', 20, 10]])
+  })
+})
+
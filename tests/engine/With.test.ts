@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Engine, GameObject, type GameObjectManager } from '../../src/engine/index.ts'
+
+describe('with()', () => {
+  let engine: Engine
+  let manager: GameObjectManager
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    engine = new Engine({ headless: true })
+    manager = engine.getObjectManager()
+    GameObject.setObjectParent('WGoblin', 'WEnemy')
+  })
+
+  function visited(target: Parameters<GameObjectManager['with']>[0]): GameObject[] {
+    const instances: GameObject[] = []
+    manager.with(target, instance => { instances.push(instance) })
+    return instances
+  }
+
+  it('visits active instances of a type and its descendants, in instance order', () => {
+    const goblin = manager.createObject('WGoblin')
+    const enemy = manager.createObject('WEnemy')
+    const sleeping = manager.createObject('WGoblin')
+    const tree = manager.createObject('WTree', 0, 0, { tags: ['scenery'] })
+    sleeping.active = false
+
+    expect(visited('WEnemy')).toEqual([goblin, enemy])
+    expect(visited({ tag: 'scenery' })).toEqual([tree])
+    expect(visited('all')).toEqual([goblin, enemy, tree])
+    expect(visited(enemy)).toEqual([enemy])
+    expect(visited(sleeping)).toEqual([])
+  })
+
+  it('collects instances up front, skipping ones destroyed or deactivated before their turn', () => {
+    const first = manager.createObject('WEnemy')
+    const second = manager.createObject('WEnemy')
+    const third = manager.createObject('WEnemy')
+    const seen: GameObject[] = []
+
+    manager.with('WEnemy', instance => {
+      seen.push(instance)
+      if (instance === first) {
+        second.destroy()
+        third.active = false
+        manager.createObject('WEnemy')
+      }
+    })
+
+    expect(seen).toEqual([first])
+  })
+
+  it('stops early when the callback returns false', () => {
+    const first = manager.createObject('WEnemy')
+    manager.createObject('WEnemy')
+    const seen: GameObject[] = []
+
+    manager.with('WEnemy', instance => {
+      seen.push(instance)
+      return false
+    })
+
+    expect(seen).toEqual([first])
+  })
+
+  it('passes the calling instance as other from GameObject.with', () => {
+    const player = manager.createObject('WPlayer')
+    const goblin = manager.createObject('WGoblin')
+    const pairs: [GameObject, GameObject][] = []
+
+    player.with('WEnemy', (instance, other) => { pairs.push([instance, other]) })
+
+    expect(pairs).toEqual([[goblin, player]])
+  })
+
+  it('requires the calling instance to be registered', () => {
+    const loose = new GameObject('WLoose')
+
+    expect(() => loose.with('all', () => {})).toThrow(/not registered/)
+  })
+})
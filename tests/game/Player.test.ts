@@ -0,0 +1,20 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { Player } from '../../src/game/gameobjects/Player.ts'
+
+describe('Player', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('reads config.speed as its movement rate without setting built-in motion', () => {
+    const player = new Player({ x: 10, y: 20, speed: 4 })
+
+    expect(player.moveSpeed).toBe(4)
+    expect(player.speed).toBe(0)
+    expect(player.hspeed).toBe(0)
+  })
+
+  it('falls back to the default movement rate', () => {
+    expect(new Player(0, 0).moveSpeed).toBe(2.5)
+  })
+})